@@ -6,6 +6,7 @@ configure({
   absWorkingDir: __dirname,
   bundle: true,
   entryPoints: {
+    bin: './src/bin.ts',
     index: './src/index.ts',
   },
   external: [
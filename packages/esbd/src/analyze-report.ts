@@ -0,0 +1,209 @@
+import type { AnalysisReportData } from './analyze';
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 13px/1.4 system-ui, sans-serif; color: #1f2328; background: #f6f8fa; }
+  header { padding: 16px 24px; background: #24292f; color: #fff; }
+  header h1 { margin: 0 0 4px; font-size: 18px; }
+  main { display: grid; grid-template-columns: minmax(0, 1fr) 360px; gap: 16px; padding: 16px 24px; }
+  section { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px 16px; margin-bottom: 16px; }
+  h2 { margin: 0 0 8px; font-size: 15px; }
+  select { font: inherit; margin-bottom: 8px; max-width: 100%; }
+  #treemap { display: flex; height: 480px; border: 1px solid #d0d7de; }
+  .node { display: flex; flex: 1 1 0; min-width: 0; min-height: 0; overflow: hidden; border: 1px solid rgba(0, 0, 0, 0.15); }
+  .group { flex-direction: column; background: rgba(0, 0, 0, 0.03); }
+  .group > .label { flex: none; padding: 0 4px; font-size: 11px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .children { display: flex; flex: 1 1 0; min-width: 0; min-height: 0; }
+  .leaf { padding: 2px 4px; font-size: 11px; cursor: pointer; word-break: break-all; }
+  .leaf:hover, tr.clickable:hover { outline: 2px solid #0969da; outline-offset: -2px; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 4px 6px; text-align: left; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+  td.size, th.size { text-align: right; white-space: nowrap; }
+  tr.clickable { cursor: pointer; }
+  code { word-break: break-all; }
+  ol { padding-left: 20px; margin: 4px 0; }
+  .muted { color: #57606a; }
+`;
+
+const SCRIPT = `
+  const data = JSON.parse(document.getElementById('data').textContent);
+
+  function formatBytes(bytes) {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' kB';
+    return (bytes / 1024 / 1024).toFixed(2) + ' MB';
+  }
+
+  function el(tag, props, ...children) {
+    const node = Object.assign(document.createElement(tag), props);
+    for (const child of children) node.append(child);
+    return node;
+  }
+
+  function importChain(path) {
+    const chain = [path];
+    let current = data.importers[path];
+    while (current && !chain.includes(current)) {
+      chain.unshift(current);
+      current = data.importers[current];
+    }
+    return chain;
+  }
+
+  function showDetails(path, bytes) {
+    const details = document.getElementById('details');
+    details.replaceChildren(
+      el('h2', { textContent: 'Why is this included?' }),
+      el('p', {}, el('code', { textContent: path })),
+      el('p', { className: 'muted', textContent: formatBytes(bytes) + ' in output' }),
+      el('ol', {}, ...importChain(path).map(p => el('li', {}, el('code', { textContent: p })))),
+    );
+  }
+
+  function colorFor(path) {
+    const match = /node_modules\\/((?:@[^/]+\\/)?[^/]+)/.exec(path);
+    const key = match ? match[1] : path.split('/').slice(0, -1).join('/');
+    let hash = 0;
+    for (const char of key) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    return 'hsl(' + (Math.abs(hash) % 360) + ', 60%, ' + (match ? 80 : 88) + '%)';
+  }
+
+  function buildTree(inputs) {
+    const root = { name: '', size: 0, children: new Map() };
+    for (const input of inputs) {
+      let node = root;
+      node.size += input.bytesInOutput;
+      for (const part of input.path.split('/')) {
+        if (!node.children.has(part)) node.children.set(part, { name: part, size: 0, children: new Map() });
+        node = node.children.get(part);
+        node.size += input.bytesInOutput;
+      }
+      node.path = input.path;
+    }
+    return root;
+  }
+
+  function renderNode(node, depth) {
+    // Collapse directories with a single child into one label
+    while (!node.path && node.children.size === 1) {
+      const [child] = node.children.values();
+      node = { ...child, name: node.name ? node.name + '/' + child.name : child.name };
+    }
+
+    if (node.path) {
+      return el('div', {
+        className: 'node leaf',
+        textContent: node.name,
+        title: node.path + ' (' + formatBytes(node.size) + ')',
+        style: 'flex-grow: ' + node.size + '; background: ' + colorFor(node.path),
+        onclick: () => showDetails(node.path, node.size),
+      });
+    }
+
+    const children = Array.from(node.children.values()).sort((a, b) => b.size - a.size);
+    return el(
+      'div',
+      { className: 'node group', style: 'flex-grow: ' + node.size, title: node.name + ' (' + formatBytes(node.size) + ')' },
+      el('div', { className: 'label', textContent: node.name + ' ' + formatBytes(node.size) }),
+      el(
+        'div',
+        { className: 'children', style: 'flex-direction: ' + (depth % 2 ? 'row' : 'column') },
+        ...children.map(child => renderNode(child, depth + 1)),
+      ),
+    );
+  }
+
+  function renderTreemap(output) {
+    document.getElementById('treemap').replaceChildren(renderNode(buildTree(output.inputs), 0));
+  }
+
+  const select = document.getElementById('output');
+  for (const [i, output] of data.outputs.entries()) {
+    select.append(el('option', { value: String(i), textContent: output.path + ' (' + formatBytes(output.bytes) + ')' }));
+  }
+  select.onchange = () => renderTreemap(data.outputs[Number(select.value)]);
+  if (data.outputs.length) renderTreemap(data.outputs[0]);
+
+  document.getElementById('largest').append(
+    ...data.largestModules.map(mod =>
+      el(
+        'tr',
+        { className: 'clickable', onclick: () => showDetails(mod.path, mod.bytesInOutput) },
+        el('td', {}, el('code', { textContent: mod.path })),
+        el('td', { className: 'size', textContent: formatBytes(mod.bytesInOutput) }),
+      ),
+    ),
+  );
+
+  const duplicates = document.getElementById('duplicates');
+  if (!data.duplicatedPackages.length) {
+    duplicates.append(el('tr', {}, el('td', { className: 'muted', textContent: 'No duplicated packages' })));
+  }
+  for (const pkg of data.duplicatedPackages) {
+    duplicates.append(
+      el('tr', {}, el('th', { textContent: pkg.name }), el('th', { className: 'size', textContent: formatBytes(pkg.bytesInOutput) })),
+      ...pkg.instances.map(instance =>
+        el(
+          'tr',
+          { className: 'clickable', onclick: () => showDetails(instance.importChain[instance.importChain.length - 1], instance.bytesInOutput) },
+          el('td', {}, el('code', { textContent: instance.path }), ' ', el('span', { className: 'muted', textContent: instance.version ? '@' + instance.version : '' })),
+          el('td', { className: 'size', textContent: formatBytes(instance.bytesInOutput) }),
+        ),
+      ),
+    );
+  }
+`;
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Renders a self-contained HTML page for exploring the analysis data.
+ */
+export function renderAnalysisReport(data: AnalysisReportData): string {
+  const title = data.name ? `esbd analysis: ${data.name}` : 'esbd analysis';
+  // Prevent "</script>" in module paths from ending the data block early
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <div>${data.outputs.length} output file(s), ${data.totalBytes.toLocaleString('en-US')} bytes total</div>
+</header>
+<main>
+  <div>
+    <section>
+      <h2>Outputs</h2>
+      <select id="output"></select>
+      <div id="treemap"></div>
+    </section>
+    <section>
+      <h2>Largest modules</h2>
+      <table><tbody id="largest"></tbody></table>
+    </section>
+  </div>
+  <div>
+    <section id="details">
+      <h2>Why is this included?</h2>
+      <p class="muted">Select a module to see the chain of imports that caused it to be included.</p>
+    </section>
+    <section>
+      <h2>Duplicated packages</h2>
+      <table><tbody id="duplicates"></tbody></table>
+    </section>
+  </div>
+</main>
+<script type="application/json" id="data">${json}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,227 @@
+import type { Metafile } from 'esbuild';
+import fs from 'fs';
+import path from 'path';
+import pc from 'picocolors';
+
+import { renderAnalysisReport } from './analyze-report';
+import type { Logger } from './log';
+
+const NODE_MODULES = '/node_modules/';
+const MAX_LARGEST_MODULES = 25;
+
+export interface AnalyzedOutput {
+  path: string;
+  bytes: number;
+  entryPoint?: string;
+  inputs: { path: string; bytesInOutput: number }[];
+}
+
+export interface AnalyzedModule {
+  path: string;
+  bytesInOutput: number;
+  package?: string;
+  /** Shortest chain of imports from an entry point to this module. */
+  importChain: string[];
+}
+
+export interface DuplicatedPackage {
+  name: string;
+  bytesInOutput: number;
+  instances: { path: string; version?: string; bytesInOutput: number; importChain: string[] }[];
+}
+
+export interface AnalysisSummary {
+  totalBytes: number;
+  outputs: AnalyzedOutput[];
+  largestModules: AnalyzedModule[];
+  duplicatedPackages: DuplicatedPackage[];
+}
+
+export interface AnalysisReportData extends AnalysisSummary {
+  name?: string;
+  /** Importer of each input along the shortest import chain from an entry point. */
+  importers: Record<string, string>;
+}
+
+/**
+ * Returns the package name and package directory for an input
+ * inside `node_modules`, using the innermost `node_modules` directory.
+ */
+function getPackage(inputPath: string): [name: string, dir: string] | undefined {
+  const normalized = `/${inputPath}`;
+  const index = normalized.lastIndexOf(NODE_MODULES);
+  if (index < 0) return undefined;
+
+  const rest = normalized.slice(index + NODE_MODULES.length).split('/');
+  const name = rest[0].startsWith('@') ? `${rest[0]}/${rest[1]}` : rest[0];
+  return [name, normalized.slice(1, index + NODE_MODULES.length) + name];
+}
+
+async function readPackageVersion(
+  basedir: string,
+  packageDir: string,
+): Promise<string | undefined> {
+  try {
+    const packageJson = await fs.promises.readFile(
+      path.resolve(basedir, packageDir, 'package.json'),
+      'utf-8',
+    );
+    return JSON.parse(packageJson).version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the shortest import chain from any entry point to every input using
+ * a breadth-first search of the import graph.
+ */
+function getImporters(metafile: Metafile): Record<string, string> {
+  const importers: Record<string, string> = {};
+  const queue = Object.values(metafile.outputs)
+    .map(output => output.entryPoint)
+    .filter((entryPoint): entryPoint is string => !!entryPoint);
+  const visited = new Set(queue);
+
+  while (queue.length) {
+    const current = queue.shift()!;
+    for (const { path: imported } of metafile.inputs[current]?.imports ?? []) {
+      if (visited.has(imported) || !metafile.inputs[imported]) continue;
+      visited.add(imported);
+      importers[imported] = current;
+      queue.push(imported);
+    }
+  }
+
+  return importers;
+}
+
+function getImportChain(importers: Record<string, string>, inputPath: string): string[] {
+  const chain = [inputPath];
+  let current = importers[inputPath];
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = importers[current];
+  }
+  return chain;
+}
+
+/**
+ * Summarizes the contents of a build from its metafile.
+ */
+export async function analyzeMetafile(
+  metafile: Metafile,
+  basedir: string,
+): Promise<AnalysisReportData> {
+  const importers = getImporters(metafile);
+
+  const outputs: AnalyzedOutput[] = Object.entries(metafile.outputs)
+    .filter(([outputPath]) => !outputPath.endsWith('.map'))
+    .map(([outputPath, output]) => ({
+      path: outputPath,
+      bytes: output.bytes,
+      entryPoint: output.entryPoint,
+      inputs: Object.entries(output.inputs)
+        .map(([inputPath, { bytesInOutput }]) => ({ path: inputPath, bytesInOutput }))
+        .filter(input => input.bytesInOutput > 0)
+        .sort((a, b) => b.bytesInOutput - a.bytesInOutput),
+    }))
+    .sort((a, b) => b.bytes - a.bytes);
+
+  const moduleBytes = new Map<string, number>();
+  for (const output of outputs) {
+    for (const input of output.inputs) {
+      moduleBytes.set(input.path, (moduleBytes.get(input.path) ?? 0) + input.bytesInOutput);
+    }
+  }
+
+  const largestModules = Array.from(moduleBytes)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_LARGEST_MODULES)
+    .map(([inputPath, bytesInOutput]) => ({
+      path: inputPath,
+      bytesInOutput,
+      package: getPackage(inputPath)?.[0],
+      importChain: getImportChain(importers, inputPath),
+    }));
+
+  const packages = new Map<string, Map<string, { bytesInOutput: number; firstInput: string }>>();
+  for (const [inputPath, bytes] of moduleBytes) {
+    const pkg = getPackage(inputPath);
+    if (!pkg) continue;
+
+    const [name, dir] = pkg;
+    const instances = packages.get(name) ?? new Map();
+    const instance = instances.get(dir) ?? { bytesInOutput: 0, firstInput: inputPath };
+    instance.bytesInOutput += bytes;
+    instances.set(dir, instance);
+    packages.set(name, instances);
+  }
+
+  const duplicatedPackages: DuplicatedPackage[] = await Promise.all(
+    Array.from(packages)
+      .filter(([, instances]) => instances.size > 1)
+      .map(async ([name, instances]) => {
+        const resolvedInstances = await Promise.all(
+          Array.from(instances, async ([dir, { bytesInOutput, firstInput }]) => ({
+            path: dir,
+            version: await readPackageVersion(basedir, dir),
+            bytesInOutput,
+            importChain: getImportChain(importers, firstInput),
+          })),
+        );
+        return {
+          name,
+          bytesInOutput: resolvedInstances.reduce((sum, i) => sum + i.bytesInOutput, 0),
+          instances: resolvedInstances,
+        };
+      }),
+  );
+  duplicatedPackages.sort((a, b) => b.bytesInOutput - a.bytesInOutput);
+
+  return {
+    totalBytes: outputs.reduce((sum, output) => sum + output.bytes, 0),
+    outputs,
+    largestModules,
+    duplicatedPackages,
+    importers,
+  };
+}
+
+/**
+ * Merges metafiles from multiple builds of the same configuration.
+ */
+export function mergeMetafiles(metafiles: Metafile[]): Metafile {
+  return {
+    inputs: Object.assign({}, ...metafiles.map(m => m.inputs)),
+    outputs: Object.assign({}, ...metafiles.map(m => m.outputs)),
+  };
+}
+
+interface WriteAnalysisOptions {
+  absOutDir: string;
+  basedir: string;
+  logger: Logger;
+  name?: string;
+}
+
+/**
+ * Writes an HTML report and a JSON summary of the build to the output directory.
+ */
+export async function writeAnalysis(
+  metafile: Metafile,
+  { absOutDir, basedir, logger, name }: WriteAnalysisOptions,
+): Promise<void> {
+  const { importers, ...summary } = await analyzeMetafile(metafile, basedir);
+
+  const htmlPath = path.join(absOutDir, 'esbd-analysis.html');
+  const jsonPath = path.join(absOutDir, 'esbd-analysis.json');
+
+  await fs.promises.mkdir(absOutDir, { recursive: true });
+  await Promise.all([
+    fs.promises.writeFile(htmlPath, renderAnalysisReport({ ...summary, importers, name })),
+    fs.promises.writeFile(jsonPath, JSON.stringify(summary, null, 2)),
+  ]);
+
+  logger.info(`Wrote analysis report to ${pc.cyan(path.relative(process.cwd(), htmlPath))}`);
+}
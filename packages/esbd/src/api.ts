@@ -0,0 +1,335 @@
+import type { LogLevel } from 'esbuild';
+import { EventEmitter } from 'events';
+
+import type {
+  BaseBuildMode,
+  BuildMode,
+  CommandName,
+  CustomBuildModes,
+  EsbdConfig,
+  EsbdConfigResult,
+} from './config';
+import { BUILD_MODES, getBaseMode, resolveConfig } from './config';
+import esbdBuildMulti from './esbd-build';
+import esbdNodeDev from './esbd-node-dev';
+import esbdServe from './esbd-serve';
+import type { IncrementalBuildContext } from './incremental-build';
+import type { InspectOptions } from './inspector';
+import type { LogEvent, LogFormat, Logger } from './log';
+import { createLogger, LOG_LEVELS } from './log';
+import { applyConfigOverrides } from './merge-config';
+import type { ConfigProblem } from './validate-config';
+import {
+  formatConfigProblems,
+  isConfigWarning,
+  validateBuildModes,
+  validateConfigResult,
+  validateServeConfigs,
+} from './validate-config';
+
+export type EsbdEventType = LogEvent['type'];
+export type EsbdEvent<T extends EsbdEventType = EsbdEventType> = Extract<LogEvent, { type: T }>;
+
+export interface EsbdApiOptions {
+  /**
+   * Working directory for configurations that don't specify `absWorkingDir`.
+   *
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * Logging level. Defaults to the lowest `logLevel` of the configurations.
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Log output format.
+   *
+   * @default "text"
+   */
+  logFormat?: LogFormat;
+
+  /**
+   * Called with every event, including those that occur before the handle is
+   * returned, such as the initial `build-end` and `server-listening`.
+   */
+  onEvent?: (event: EsbdEvent) => void;
+
+  /**
+   * Build mode: `development`, `production`, or one of `buildModes`.
+   *
+   * @default "development"
+   */
+  mode?: BuildMode;
+
+  /**
+   * Custom build modes, each mapped to the built-in mode whose defaults it uses.
+   */
+  buildModes?: CustomBuildModes;
+}
+
+export interface BuildApiOptions extends EsbdApiOptions {
+  /** Write a bundle analysis report to the output directory of each configuration. */
+  analyze?: boolean;
+  /** Print the output of each configuration when its build finishes. */
+  bufferOutput?: boolean;
+  /** Rebuild when source files change. */
+  watch?: boolean;
+}
+
+export interface ServeApiOptions extends EsbdApiOptions {
+  /** @default "127.0.0.1" */
+  host?: string;
+  /** @default 8000 */
+  port?: number;
+  https?: boolean;
+  httpsCert?: string;
+  httpsKey?: string;
+  livereload?: boolean;
+  /** Rewrite all requests to "index.html" (SPA mode). @default true */
+  rewrite?: boolean;
+  servedir?: string;
+}
+
+export interface NodeDevApiOptions extends EsbdApiOptions {
+  /** Arguments that are passed to the program. */
+  args?: string[];
+  inspect?: InspectOptions;
+  /** Restart the program when it exits. */
+  respawn?: boolean;
+  /** Additional configurations that are built in watch mode alongside the program. */
+  watchConfigs?: EsbdConfig[];
+}
+
+export interface EsbdHandle {
+  /**
+   * Calls `listener` whenever an event of the given type occurs, e.g.,
+   * `build-start` or `build-end`. Events from before the handle was returned
+   * are only passed to the `onEvent` option.
+   */
+  on<T extends EsbdEventType>(type: T, listener: (event: EsbdEvent<T>) => void): void;
+  off<T extends EsbdEventType>(type: T, listener: (event: EsbdEvent<T>) => void): void;
+
+  /**
+   * Builds every configuration again. Rejects if a build fails.
+   */
+  rebuild(): Promise<void>;
+
+  /**
+   * Stops watching, servers and programs and releases the esbuild contexts.
+   */
+  dispose(): Promise<void>;
+}
+
+export interface ServeHandle extends EsbdHandle {
+  /** URL of the development server. */
+  url: string;
+}
+
+export interface NodeDevHandle extends EsbdHandle {
+  /**
+   * Resolves with the exit code once the program has exited without being
+   * restarted, or once the handle has been disposed.
+   */
+  done: Promise<number>;
+
+  /**
+   * Rebuilds and restarts every program, even if its output is unchanged.
+   */
+  restart(): Promise<void>;
+}
+
+/**
+ * Creates a logger for `configs` that also forwards every event to `onEvent` and `emitter`.
+ */
+function createApiLogger(
+  configs: EsbdConfig[],
+  { logLevel, logFormat, onEvent }: EsbdApiOptions,
+  emitter: EventEmitter,
+): Logger {
+  const logLevels = configs
+    .map(config => LOG_LEVELS.indexOf(config.logLevel ?? 'info'))
+    .filter(i => i >= 0);
+  const minLogLevel =
+    logLevel ?? (logLevels.length > 0 ? LOG_LEVELS[Math.min(...logLevels)] : 'info');
+  const logger = createLogger(minLogLevel, logFormat);
+
+  return {
+    ...logger,
+    event(event) {
+      logger.event(event);
+      onEvent?.(event);
+      emitter.emit(event.type, event);
+    },
+  };
+}
+
+/**
+ * Throws if any of the problems are errors and returns the warnings.
+ */
+function assertNoProblems(problems: ConfigProblem[]): ConfigProblem[] {
+  const errors = problems.filter(problem => !isConfigWarning(problem));
+  if (errors.length > 0) {
+    throw new Error(formatConfigProblems(errors, false));
+  }
+  return problems.filter(isConfigWarning);
+}
+
+function logConfigWarnings(logger: Logger, warnings: ConfigProblem[]) {
+  if (warnings.length > 0) {
+    logger.warn(formatConfigProblems(warnings));
+  }
+}
+
+/**
+ * Returns the built-in mode whose defaults are used for the `mode` option.
+ */
+function getApiBaseMode({ buildModes, mode = 'development' }: EsbdApiOptions): BaseBuildMode {
+  assertNoProblems(validateBuildModes(buildModes));
+  const baseMode = getBaseMode(mode, buildModes);
+  if (!baseMode) {
+    throw new Error(`Unknown mode "${mode}". Custom modes must be declared in "buildModes".`);
+  }
+  return baseMode;
+}
+
+/**
+ * Validates configurations and applies their `extends`, `modes` and `commands`
+ * options. Returns the merged configurations and any warnings.
+ */
+function prepareConfigs<T extends EsbdConfig | EsbdConfig[]>(
+  config: T,
+  command: CommandName,
+  { buildModes, mode = 'development' }: EsbdApiOptions,
+): [T, ConfigProblem[]] {
+  const modeNames = [...BUILD_MODES, ...Object.keys(buildModes ?? {})];
+  const warnings = assertNoProblems(validateConfigResult(config, modeNames));
+  const mergedConfig = applyConfigOverrides(config, mode, command);
+  assertNoProblems(validateConfigResult(mergedConfig, modeNames));
+  return [mergedConfig, warnings];
+}
+
+function createHandle(
+  emitter: EventEmitter,
+  { dispose, rebuild }: Pick<EsbdHandle, 'dispose' | 'rebuild'>,
+): EsbdHandle {
+  return {
+    on: (type, listener) => emitter.on(type, listener),
+    off: (type, listener) => emitter.off(type, listener),
+    rebuild,
+    dispose,
+  };
+}
+
+function rebuildAll(contexts: IncrementalBuildContext[]): Promise<void> {
+  return Promise.all(contexts.map(context => context.rebuild())).then(() => {});
+}
+
+/**
+ * Builds one or more configurations. Without `watch`, the returned promise
+ * resolves once the initial build has finished and `rebuild` runs a complete
+ * build again.
+ */
+export async function build(
+  config: EsbdConfig | EsbdConfig[],
+  options: BuildApiOptions = {},
+): Promise<EsbdHandle> {
+  const {
+    analyze,
+    bufferOutput,
+    cwd = process.cwd(),
+    mode = 'development',
+    watch = false,
+  } = options;
+  const baseMode = getApiBaseMode(options);
+  const [mergedConfig, warnings] = prepareConfigs(config, 'build', options);
+  const configs = Array.isArray(mergedConfig) ? mergedConfig : [mergedConfig];
+  const emitter = new EventEmitter();
+  const logger = createApiLogger(configs, options, emitter);
+  logConfigWarnings(logger, warnings);
+
+  const runBuild = () =>
+    esbdBuildMulti(
+      configs.map(c => resolveConfig(c, logger.logLevel, cwd, baseMode)),
+      { analyze, bufferOutput, logger, mode, watch },
+    );
+
+  const contexts = await runBuild();
+
+  return createHandle(emitter, {
+    rebuild: () => (watch ? rebuildAll(contexts) : runBuild().then(() => {})),
+    dispose: () => Promise.all(contexts.map(context => context.dispose())).then(() => {}),
+  });
+}
+
+/**
+ * Starts a development server for one or more browser configurations.
+ */
+export async function serve(
+  config: EsbdConfig | EsbdConfig[],
+  options: ServeApiOptions = {},
+): Promise<ServeHandle> {
+  const { cwd = process.cwd(), mode = 'development', rewrite = true } = options;
+  const { host, port, https, httpsCert, httpsKey, livereload, servedir } = options;
+  const baseMode = getApiBaseMode(options);
+  const [mergedConfig, warnings] = prepareConfigs(config, 'serve', options);
+  const configs = Array.isArray(mergedConfig) ? mergedConfig : [mergedConfig];
+  assertNoProblems(validateServeConfigs(mergedConfig as EsbdConfigResult, configs));
+  const emitter = new EventEmitter();
+  const logger = createApiLogger(configs, options, emitter);
+  logConfigWarnings(logger, warnings);
+
+  const result = await esbdServe(
+    configs.map(c => resolveConfig(c, logger.logLevel, cwd, baseMode)),
+    { host, port, https, httpsCert, httpsKey, livereload, logger, mode, rewrite, servedir },
+  );
+  if (!result) {
+    throw new Error('At least one HTML entry point is required for "serve"');
+  }
+
+  return {
+    ...createHandle(emitter, {
+      rebuild: () => rebuildAll(result.contexts),
+      dispose: result.dispose,
+    }),
+    url: result.url,
+  };
+}
+
+/**
+ * Builds a Node program in watch mode and restarts it when its output changes.
+ */
+export async function nodeDev(
+  config: EsbdConfig,
+  options: NodeDevApiOptions = {},
+): Promise<NodeDevHandle> {
+  const { args = [], cwd = process.cwd(), inspect, mode = 'development', respawn } = options;
+  const baseMode = getApiBaseMode(options);
+  const [programConfig, warnings] = prepareConfigs(config, 'node-dev', options);
+  const preparedWatchConfigs = (options.watchConfigs ?? []).map(c =>
+    prepareConfigs(c, 'node-dev', options),
+  );
+  const watchConfigs = preparedWatchConfigs.map(([c]) => c);
+  const emitter = new EventEmitter();
+  const logger = createApiLogger([programConfig, ...watchConfigs], options, emitter);
+  logConfigWarnings(logger, [...warnings, ...preparedWatchConfigs.flatMap(([, w]) => w)]);
+
+  const result = await esbdNodeDev(resolveConfig(programConfig, logger.logLevel, cwd, baseMode), {
+    args,
+    inspect,
+    logger,
+    mode,
+    respawn,
+    watchConfigs: watchConfigs.map(c => resolveConfig(c, logger.logLevel, cwd, baseMode)),
+  });
+
+  return {
+    ...createHandle(emitter, {
+      rebuild: () => rebuildAll(result.contexts),
+      dispose: result.dispose,
+    }),
+    done: result.done,
+    restart: result.restart,
+  };
+}
@@ -0,0 +1,263 @@
+import type { Metafile, PartialMessage, Plugin } from 'esbuild';
+import fs from 'fs';
+import path from 'path';
+import pc from 'picocolors';
+import picomatch from 'picomatch';
+import prettyBytes from 'pretty-bytes';
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+import type { ResolvedEsbdConfig, SizeBudget, SizeThresholds } from './config';
+import type { Logger } from './log';
+
+type SizeKind = 'raw' | 'gzip' | 'brotli';
+type Sizes = Partial<Record<SizeKind, number>>;
+type SizeSnapshot = Record<string, Sizes>;
+
+interface BudgetedOutput {
+  absPath: string;
+  budgets: [key: string, budget: SizeBudget][];
+  snapshotKey: string;
+}
+
+const SIZE_KINDS: SizeKind[] = ['raw', 'gzip', 'brotli'];
+const SIZE_LABELS: Record<SizeKind, string> = { raw: '', gzip: ' (gzip)', brotli: ' (brotli)' };
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+async function measure(contents: Uint8Array, kinds: Set<SizeKind>): Promise<Sizes> {
+  const sizes: Sizes = { raw: contents.byteLength };
+  if (kinds.has('gzip')) {
+    sizes.gzip = (await gzip(contents, { level: zlib.constants.Z_BEST_COMPRESSION })).byteLength;
+  }
+  if (kinds.has('brotli')) {
+    sizes.brotli = (
+      await brotliCompress(contents, {
+        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY },
+      })
+    ).byteLength;
+  }
+  return sizes;
+}
+
+function getMeasuredKinds(budgets: [string, SizeBudget][]): Set<SizeKind> {
+  const kinds = new Set<SizeKind>(['raw']);
+  for (const [, { warning, error }] of budgets) {
+    for (const kind of SIZE_KINDS) {
+      if (warning?.[kind] !== undefined || error?.[kind] !== undefined) kinds.add(kind);
+    }
+  }
+  return kinds;
+}
+
+function getAllowedIncrease(increase: NonNullable<SizeThresholds['increase']>, previous: number) {
+  return typeof increase === 'number' ? increase : (previous * parseFloat(increase)) / 100;
+}
+
+async function readSnapshot(snapshotPath: string, logger: Logger): Promise<SizeSnapshot> {
+  try {
+    return JSON.parse(await fs.promises.readFile(snapshotPath, 'utf-8'));
+  } catch (e: unknown) {
+    const missing = e instanceof Error && 'code' in e && e.code === 'ENOENT';
+    if (!missing) logger.warn(`Unable to read size snapshot: ${String(e)}`);
+    return {};
+  }
+}
+
+/**
+ * Determines which budgets apply to each output file. Budget keys that match
+ * the name of an entry point apply to its outputs (including CSS bundles), while
+ * other keys are treated as glob patterns matched against paths relative to `outdir`.
+ */
+function getBudgetedOutputs(
+  metafile: Metafile,
+  budgets: Record<string, SizeBudget>,
+  entries: (readonly [string, string])[],
+  config: ResolvedEsbdConfig,
+): BudgetedOutput[] {
+  const absOutDir = path.resolve(config.absWorkingDir, config.outdir);
+  const entryInputs = new Map(
+    entries.map(([name, entryPath]) => [
+      name,
+      toPosix(path.relative(config.absWorkingDir, path.resolve(config.absWorkingDir, entryPath))),
+    ]),
+  );
+
+  const cssBundles = new Map<string, string>();
+  for (const output of Object.values(metafile.outputs)) {
+    if (output.entryPoint && output.cssBundle) cssBundles.set(output.cssBundle, output.entryPoint);
+  }
+
+  const matchers = Object.entries(budgets).map(([key, budget]) => {
+    const entryInput = entryInputs.get(key);
+    const isGlobMatch = entryInput ? undefined : picomatch(key);
+    const isMatch = (entryPoint: string | undefined, relativePath: string) =>
+      isGlobMatch ? isGlobMatch(relativePath) : entryPoint === entryInput;
+    return [key, budget, isMatch] as const;
+  });
+
+  const budgetedOutputs: BudgetedOutput[] = [];
+  for (const [outputPath, output] of Object.entries(metafile.outputs)) {
+    if (outputPath.endsWith('.map')) continue;
+
+    const absPath = path.resolve(config.absWorkingDir, outputPath);
+    const relativePath = toPosix(path.relative(absOutDir, absPath));
+    const entryPoint = output.entryPoint ?? cssBundles.get(outputPath);
+
+    const matching = matchers
+      .filter(([, , isMatch]) => isMatch(entryPoint, relativePath))
+      .map(([key, budget]) => [key, budget] as [string, SizeBudget]);
+    if (!matching.length) continue;
+
+    budgetedOutputs.push({
+      absPath,
+      budgets: matching,
+      // Output names may contain content hashes, so entry point outputs are tracked by entry point
+      snapshotKey: entryPoint
+        ? `${entryPoint} (${path.extname(outputPath).slice(1)})`
+        : relativePath,
+    });
+  }
+  return budgetedOutputs;
+}
+
+function checkThresholds(
+  displayPath: string,
+  sizes: Sizes,
+  previous: Sizes | undefined,
+  [key, budget]: [string, SizeBudget],
+): [errors: PartialMessage[], warnings: PartialMessage[]] {
+  const errors: PartialMessage[] = [];
+  const warnings: PartialMessage[] = [];
+  const reported = new Set<string>();
+  const notes = [{ text: `The budget for "${key}" is defined in the esbd configuration` }];
+
+  for (const [level, messages] of [
+    ['error', errors],
+    ['warning', warnings],
+  ] as const) {
+    const thresholds = budget[level];
+    if (!thresholds) continue;
+
+    for (const kind of SIZE_KINDS) {
+      const size = sizes[kind];
+      const limit = thresholds[kind];
+      if (size === undefined || limit === undefined || size <= limit || reported.has(kind)) {
+        continue;
+      }
+      reported.add(kind);
+
+      messages.push({
+        text: `${displayPath} is ${prettyBytes(size)}${SIZE_LABELS[kind]}, exceeding its budget of ${prettyBytes(limit)}`,
+        notes,
+      });
+    }
+
+    const { increase } = thresholds;
+    if (increase === undefined || !previous) continue;
+
+    for (const kind of SIZE_KINDS) {
+      const size = sizes[kind];
+      const previousSize = previous[kind];
+      if (size === undefined || previousSize === undefined || reported.has(`+${kind}`)) continue;
+
+      const growth = size - previousSize;
+      if (growth <= getAllowedIncrease(increase, previousSize)) continue;
+      reported.add(`+${kind}`);
+
+      const percent = previousSize ? ` (+${((growth / previousSize) * 100).toFixed(1)}%)` : '';
+      const allowed = typeof increase === 'number' ? prettyBytes(increase) : increase;
+      messages.push({
+        text: `${displayPath} grew by ${prettyBytes(growth)}${SIZE_LABELS[kind]}${percent} since the previous build, exceeding its allowed increase of ${allowed}`,
+        notes,
+      });
+    }
+  }
+
+  return [errors, warnings];
+}
+
+/**
+ * Returns a factory for plugins that check output sizes against the `budgets` in
+ * a configuration. Violations are added to the build result as errors or warnings.
+ *
+ * Plugins from the same factory share a size snapshot, which is saved after
+ * every build that does not exceed an error budget.
+ */
+export function budgetChecker(
+  config: ResolvedEsbdConfig,
+  entries: (readonly [string, string])[],
+  logger: Logger,
+): () => Plugin {
+  const budgets = config.budgets ?? {};
+  const snapshotPath = path.resolve(
+    config.absWorkingDir,
+    config.budgetSnapshot ??
+      path.join('node_modules', '.cache', 'esbd', `${config.name ?? 'default'}-sizes.json`),
+  );
+
+  let snapshot: Promise<SizeSnapshot> | undefined;
+  let pending = Promise.resolve();
+
+  function getSnapshot(): Promise<SizeSnapshot> {
+    snapshot ??= readSnapshot(snapshotPath, logger);
+    return snapshot;
+  }
+
+  function saveSnapshot(sizes: SizeSnapshot): Promise<void> {
+    pending = pending
+      .then(async () => {
+        const nextSnapshot = { ...(await getSnapshot()), ...sizes };
+        snapshot = Promise.resolve(nextSnapshot);
+
+        await fs.promises.mkdir(path.dirname(snapshotPath), { recursive: true });
+        await fs.promises.writeFile(snapshotPath, JSON.stringify(nextSnapshot, null, 2) + '\n');
+        logger.debug(pc.gray(`Saved output sizes to ${snapshotPath}`));
+      })
+      .catch(e => logger.warn(`Unable to save size snapshot: ${e}`));
+    return pending;
+  }
+
+  return () => ({
+    name: 'esbd-budgets',
+    setup(build) {
+      build.onEnd(async result => {
+        if (result.errors.length || !result.metafile || !result.outputFiles) return undefined;
+
+        const previousSizes = await getSnapshot();
+
+        const contents = new Map(result.outputFiles.map(file => [file.path, file.contents]));
+        const budgetedOutputs = getBudgetedOutputs(result.metafile, budgets, entries, config);
+
+        const sizes: SizeSnapshot = {};
+        const messages = await Promise.all(
+          budgetedOutputs.map(async output => {
+            const outputContents = contents.get(output.absPath);
+            if (!outputContents) return [];
+
+            const outputSizes = await measure(outputContents, getMeasuredKinds(output.budgets));
+            sizes[output.snapshotKey] = outputSizes;
+
+            const displayPath = path.relative(process.cwd(), output.absPath);
+            return output.budgets.map(budget =>
+              checkThresholds(displayPath, outputSizes, previousSizes[output.snapshotKey], budget),
+            );
+          }),
+        );
+
+        const errors = messages.flat().flatMap(([budgetErrors]) => budgetErrors);
+        const warnings = messages.flat().flatMap(([, budgetWarnings]) => budgetWarnings);
+
+        // Keep the previous sizes as the baseline until errors have been resolved
+        if (!errors.length) await saveSnapshot(sizes);
+
+        return { errors, warnings };
+      });
+    },
+  });
+}
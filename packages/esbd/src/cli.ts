@@ -1,62 +1,133 @@
 import { cli, command } from 'cleye';
 import type { LogLevel } from 'esbuild';
+import Graceful from 'node-graceful';
 import path from 'path';
+import pc from 'picocolors';
+import util from 'util';
 
 import type {
+  BaseBuildMode,
   BuildMode,
+  CommandName,
   ConfigFn,
+  CustomBuildModes,
   EsbdConfig,
   EsbdConfigResult,
   NamedEsbdConfig,
-  ResolvedEsbdConfig,
   TsBuildMode,
 } from './config';
-import { BUILD_MODES, TS_BUILD_MODES } from './config';
+import { BUILD_MODES, COMMAND_NAMES, getBaseMode, resolveConfig, TS_BUILD_MODES } from './config';
 import esbdBuildMulti from './esbd-build';
 import nodeDev from './esbd-node-dev';
 import serve from './esbd-serve';
-import { createLogger, LOG_LEVELS, LogLevelType } from './log';
+import { formatInspections, inspectConfig } from './inspect-config';
+import type { InspectOptions } from './inspector';
+import { parseInspectAddress } from './inspector';
+import { CONFIG_FILE_NAMES, findConfigFile, loadConfigFile } from './load-config';
+import type { LogFormat } from './log';
+import { createLogger, LOG_FORMATS, LOG_LEVELS, LogFormatType, LogLevelType } from './log';
+import { applyConfigOverrides } from './merge-config';
+import type { ConfigProblem } from './validate-config';
+import {
+  findClosest,
+  formatConfigProblems,
+  isConfigWarning,
+  validateBuildModes,
+  validateConfigResult,
+  validateServeConfigs,
+} from './validate-config';
 
 const version = require('../package.json').version;
 
-function updateConfig(config: EsbdConfig, logLevel: LogLevel): ResolvedEsbdConfig {
-  config.absWorkingDir ??= process.cwd();
-  config.logLevel = logLevel;
-  config.outdir ??= path.join(config.absWorkingDir, 'dist');
-  config.plugins ??= [];
-
-  return config as ResolvedEsbdConfig;
-}
-
 function getSingleConfigResult(
   commandName: string,
   configResult: EsbdConfigResult,
-  ...predicates: ((config: NamedEsbdConfig) => boolean)[]
+  name: string | undefined,
+  fallback: (config: NamedEsbdConfig) => boolean,
 ): EsbdConfig {
-  const config = Array.isArray(configResult)
-    ? configResult.length === 1
-      ? configResult[0]
-      : predicates.map(predicate => configResult.find(predicate)).filter(Boolean)[0]
-    : configResult;
+  if (!Array.isArray(configResult)) return configResult;
+  if (name !== undefined) return getNamedConfigResults(commandName, configResult, [name])[0];
 
+  const config = configResult.length === 1 ? configResult[0] : configResult.find(fallback);
   if (!config) {
     console.error(`You must specify a single configuration name when running ${commandName}`);
-    if (Array.isArray(configResult)) {
-      console.log(`Config names: ${configResult.map(r => r.name).join(', ')}`);
-    }
+    console.log(`Config names: ${configResult.map(r => r.name).join(', ')}`);
     process.exit(1);
   }
 
   return config;
 }
 
+function getNamedConfigResults(
+  commandName: string,
+  configResult: EsbdConfigResult,
+  names: string[],
+): EsbdConfig[] {
+  if (!Array.isArray(configResult)) return [configResult];
+
+  const configNames = configResult.map(r => r.name);
+  const configs = names.map(name => configResult.find(c => c.name === name));
+  const unknownNames = names.filter((_, i) => !configs[i]);
+
+  if (unknownNames.length) {
+    for (const name of unknownNames) {
+      const closest = findClosest(name, configNames);
+      const suggestion = closest ? ` (did you mean "${closest}"?)` : '';
+      console.error(`Unknown configuration name for ${commandName}: "${name}"${suggestion}`);
+    }
+    console.log(`Config names: ${configNames.join(', ')}`);
+    process.exit(1);
+  }
+
+  return configs as EsbdConfig[];
+}
+
+function exitWithConfigProblems(problems: ConfigProblem[]) {
+  const warnings = problems.filter(isConfigWarning);
+  const errors = problems.filter(problem => !isConfigWarning(problem));
+  if (warnings.length > 0) {
+    console.warn(formatConfigProblems(warnings));
+  }
+  if (errors.length > 0) {
+    console.error(formatConfigProblems(errors));
+    process.exit(1);
+  }
+}
+
+function createSharedLogger(
+  configs: EsbdConfig[],
+  logLevel: LogLevel | undefined,
+  logFormat: LogFormat,
+) {
+  if (logLevel) return createLogger(logLevel, logFormat);
+
+  const logLevels = configs
+    .map(config => LOG_LEVELS.indexOf(config.logLevel ?? 'info'))
+    .filter(i => i >= 0);
+
+  return createLogger(
+    logLevels.length > 0 ? LOG_LEVELS[Math.min(...logLevels)] : 'info',
+    logFormat,
+  );
+}
+
+const isBrowserConfig = (config: EsbdConfig) => !config.platform || config.platform === 'browser';
+
+// Custom modes are checked once the config has been loaded
 function ModeType(mode: BuildMode) {
-  if (!BUILD_MODES.includes(mode)) {
+  if (!/^[\w-]+$/.test(mode)) {
     throw new Error(`Invalid mode: ${mode}`);
   }
   return mode;
 }
 
+function CommandType(commandName: CommandName) {
+  if (!COMMAND_NAMES.includes(commandName)) {
+    throw new Error(`Invalid command: ${commandName}`);
+  }
+  return commandName;
+}
+
 function BuildModeType(mode: TsBuildMode) {
   if (!TS_BUILD_MODES.includes(mode)) {
     throw new Error(`Invalid TypeScript build mode: ${mode}`);
@@ -70,11 +141,16 @@ const globalFlags = {
     alias: 'l',
     description: `Logging level (${LOG_LEVELS.join(', ')}) (default: "info")`,
   },
+  logFormat: {
+    type: LogFormatType,
+    default: 'text',
+    description: `Log output format (${LOG_FORMATS.join(', ')})`,
+  },
   mode: {
     type: ModeType,
     alias: 'm',
     default: 'development',
-    description: 'Build mode (development, production)',
+    description: 'Build mode (development, production, or a mode declared in buildModes)',
   },
   check: {
     type: Boolean,
@@ -89,7 +165,34 @@ const globalFlags = {
   },
 } as const;
 
-function parseArgv(programName: string) {
+const noShortcutsFlag = {
+  noShortcuts: {
+    type: Boolean,
+    default: false,
+    description: 'Disable keyboard shortcuts while watching for changes',
+  },
+} as const;
+
+const standaloneFlags = {
+  config: {
+    type: String,
+    alias: 'c',
+    placeholder: '<path>',
+    description: `Path to config file (default: ${CONFIG_FILE_NAMES.join(', ')})`,
+  },
+} as const;
+
+function parseArgv(programName: string, standalone: boolean) {
+  const commonFlags = { ...globalFlags, ...(standalone ? standaloneFlags : undefined) };
+  const inspectFlags = {
+    ...(standalone ? standaloneFlags : undefined),
+    mode: globalFlags.mode,
+    command: {
+      type: CommandType,
+      default: 'build' as CommandName,
+      description: `Command to resolve the configuration for (${COMMAND_NAMES.join(', ')})`,
+    },
+  };
   try {
     return cli({
       name: programName,
@@ -102,29 +205,56 @@ function parseArgv(programName: string) {
           },
           parameters: ['[name]'],
           flags: {
-            ...globalFlags,
+            ...commonFlags,
             watch: {
               type: Boolean,
               alias: 'w',
               default: false,
               description: 'Watch for changes and rebuild',
             },
+            analyze: {
+              type: Boolean,
+              default: false,
+              description: 'Write a bundle analysis report (HTML and JSON) to the output directory',
+            },
+            bufferOutput: {
+              type: Boolean,
+              default: false,
+              description: 'Print the output of each configuration when its build finishes',
+            },
+            ...noShortcutsFlag,
           },
         }),
         command({
           name: 'node-dev',
           help: {
             description: 'Node application development host',
-            examples: ['-r -- --port 8080 --config my-config.json'],
+            examples: ['-r -- --port 8080 --config my-config.json', 'server web'],
           },
-          parameters: ['[name]'],
+          parameters: ['[names...]'],
           flags: {
-            ...globalFlags,
+            ...commonFlags,
             respawn: {
               type: Boolean,
               alias: 'r',
               default: false,
-              description: 'Restart program on exit/error (but quit after 3 restarts within 5s)',
+              description:
+                'Restart program on exit/error using the nodeDev.respawn policy (default: quit after 3 restarts within 5s, no backoff)',
+            },
+            inspect: {
+              type: String,
+              placeholder: '[=[host:]port]',
+              description: 'Enable the Node.js inspector for the program (default: 127.0.0.1:9229)',
+            },
+            inspectBrk: {
+              type: String,
+              placeholder: '[=[host:]port]',
+              description: 'Enable the Node.js inspector and break before user code starts',
+            },
+            shortcuts: {
+              type: Boolean,
+              default: false,
+              description: 'Enable keyboard shortcuts (the program will not receive stdin)',
             },
           },
         }),
@@ -133,9 +263,15 @@ function parseArgv(programName: string) {
           help: {
             description: 'Single page application development server',
           },
-          parameters: ['[name]'],
+          parameters: ['[names...]'],
           flags: {
-            ...globalFlags,
+            ...commonFlags,
+            all: {
+              type: Boolean,
+              alias: 'a',
+              default: false,
+              description: 'Serve all browser configurations',
+            },
             servedir: {
               type: String,
               alias: 'd',
@@ -148,6 +284,7 @@ function parseArgv(programName: string) {
               default: false,
               description: 'Reload page on rebuild',
             },
+            ...noShortcutsFlag,
             host: {
               type: String,
               alias: 's',
@@ -160,6 +297,21 @@ function parseArgv(programName: string) {
               default: 8000,
               description: 'Development server port',
             },
+            https: {
+              type: Boolean,
+              default: false,
+              description: 'Serve over HTTPS using a generated self-signed certificate',
+            },
+            httpsCert: {
+              type: String,
+              placeholder: '<path>',
+              description: 'TLS certificate to use for HTTPS (implies --https)',
+            },
+            httpsKey: {
+              type: String,
+              placeholder: '<path>',
+              description: 'TLS private key to use for HTTPS (implies --https)',
+            },
             noRewrite: {
               type: Boolean,
               default: false,
@@ -167,6 +319,31 @@ function parseArgv(programName: string) {
             },
           },
         }),
+        command({
+          name: 'check-config',
+          help: {
+            description: 'Validate the configuration and print the resolved configurations',
+            examples: ['', 'web --command serve --mode production'],
+          },
+          parameters: ['[names...]'],
+          flags: inspectFlags,
+        }),
+        command({
+          name: 'inspect',
+          help: {
+            description: 'Print the esbuild options and HTML entry points used for a command',
+            examples: ['web --command serve', 'server --command node-dev --json'],
+          },
+          parameters: ['[name]'],
+          flags: {
+            ...inspectFlags,
+            json: {
+              type: Boolean,
+              default: false,
+              description: 'Print the options as JSON',
+            },
+          },
+        }),
       ],
     });
   } catch (e) {
@@ -179,108 +356,285 @@ function parseArgv(programName: string) {
   }
 }
 
-let initialized = false;
+type Argv = ReturnType<typeof parseArgv>;
+type ConfigParam = EsbdConfigResult | ConfigFn;
+type ConfigLoader = (
+  configPath?: string,
+) => Promise<[ConfigParam, string, CustomBuildModes | undefined]>;
 
-/**
- * Configures one or more bundles that will be produced by this build script.
- *
- * @param configParam Configuration object, array, or function that defines the bundles.
- */
-export default function configure(configParam: EsbdConfigResult | ConfigFn) {
-  if (initialized) {
-    console.error('"configure()" can only be used once per file');
+async function loadConfigResult(
+  loadConfig: ConfigLoader,
+  configPath: string | undefined,
+  mode: BuildMode,
+  commandName: CommandName,
+): Promise<[EsbdConfigResult, string, BaseBuildMode]> {
+  const [configParam, defaultWorkingDir, buildModes] = await loadConfig(configPath);
+  exitWithConfigProblems(validateBuildModes(buildModes));
+
+  const modeNames = [...BUILD_MODES, ...Object.keys(buildModes ?? {})];
+  const baseMode = getBaseMode(mode, buildModes);
+  if (!baseMode) {
+    const closest = findClosest(mode, modeNames);
+    console.error(`Unknown mode: "${mode}"${closest ? ` (did you mean "${closest}"?)` : ''}`);
+    console.log(`Modes: ${modeNames.join(', ')}`);
     process.exit(1);
   }
-  initialized = true;
 
-  const programName = path.basename(path.relative(process.cwd(), process.argv[1]));
-  const argv = parseArgv(programName);
-
-  async function run() {
-    switch (argv.command) {
-      case 'build': {
-        const { logLevel, mode, watch } = argv.flags;
-        const configResult =
-          typeof configParam === 'function' ? await configParam(mode, 'build') : configParam;
-
-        const configs = Array.isArray(configResult)
-          ? argv._.name
-            ? configResult.filter(c => c.name === argv._.name)
-            : configResult
+  const configResult =
+    typeof configParam === 'function' ? await configParam(mode, commandName) : configParam;
+  exitWithConfigProblems(validateConfigResult(configResult, modeNames));
+
+  // Warnings were already reported for the configuration before it was merged
+  const mergedConfigResult = applyConfigOverrides(configResult, mode, commandName);
+  exitWithConfigProblems(
+    validateConfigResult(mergedConfigResult, modeNames).filter(
+      problem => !isConfigWarning(problem),
+    ),
+  );
+  return [mergedConfigResult, defaultWorkingDir, baseMode];
+}
+
+async function run(argv: Argv, loadConfig: ConfigLoader) {
+  switch (argv.command) {
+    case 'build': {
+      const { logLevel, mode, watch } = argv.flags;
+      const [configResult, defaultWorkingDir, baseMode] = await loadConfigResult(
+        loadConfig,
+        argv.flags.config,
+        mode,
+        'build',
+      );
+
+      const configs = argv._.name
+        ? getNamedConfigResults('build', configResult, [argv._.name])
+        : Array.isArray(configResult)
+          ? configResult
           : [configResult];
 
-        const logLevels = configs
-          .map(config => LOG_LEVELS.indexOf(config.logLevel ?? 'info'))
-          .filter(i => i >= 0);
+      const logLevels = configs
+        .map(config => LOG_LEVELS.indexOf(config.logLevel ?? 'info'))
+        .filter(i => i >= 0);
 
-        const minLogLevel = logLevels.length > 0 ? LOG_LEVELS[Math.min(...logLevels)] : 'info';
-        const logger = createLogger(minLogLevel);
+      const minLogLevel = logLevels.length > 0 ? LOG_LEVELS[Math.min(...logLevels)] : 'info';
+      const logger = createLogger(minLogLevel, argv.flags.logFormat);
 
-        await esbdBuildMulti(
-          configs.map(config => updateConfig(config, logLevel ?? config.logLevel ?? 'info')),
-          { logger, mode, watch, check: argv.flags.check, tsBuildMode: argv.flags.tsBuildMode },
-        );
-        break;
+      const contexts = await esbdBuildMulti(
+        configs.map(config =>
+          resolveConfig(config, logLevel ?? config.logLevel ?? 'info', defaultWorkingDir, baseMode),
+        ),
+        {
+          analyze: argv.flags.analyze,
+          bufferOutput: argv.flags.bufferOutput,
+          logger,
+          mode,
+          watch,
+          check: argv.flags.check,
+          shortcuts: !argv.flags.noShortcuts,
+          tsBuildMode: argv.flags.tsBuildMode,
+        },
+      );
+      if (watch) {
+        Graceful.on('exit', () => Promise.all(contexts.map(context => context.dispose())));
       }
+      break;
+    }
 
-      case 'node-dev': {
-        const { logLevel, mode, respawn } = argv.flags;
-        const configResult =
-          typeof configParam === 'function' ? await configParam(mode, 'node-dev') : configParam;
+    case 'node-dev': {
+      const { inspect, inspectBrk, logLevel, mode, respawn } = argv.flags;
+      const [configResult, defaultWorkingDir, baseMode] = await loadConfigResult(
+        loadConfig,
+        argv.flags.config,
+        mode,
+        'node-dev',
+      );
 
-        const config = getSingleConfigResult(
-          'node-dev',
-          configResult,
-          c => c.name === argv._.name,
-          c => c.platform === 'node',
-        );
+      const { names } = argv._;
+      const configs =
+        names.length > 1
+          ? getNamedConfigResults('node-dev', configResult, names)
+          : [getSingleConfigResult('node-dev', configResult, names[0], c => c.platform === 'node')];
+
+      const programConfig =
+        configs.length === 1 ? configs[0] : configs.find(c => c.platform === 'node');
+      if (!programConfig) {
+        console.error('One of the configurations for node-dev must specify platform="node"');
+        process.exit(1);
+      }
+
+      const inspectAddress = inspectBrk ?? inspect;
+      let inspectOptions: InspectOptions | undefined;
+      if (inspectAddress !== undefined) {
+        try {
+          inspectOptions = {
+            ...parseInspectAddress(inspectAddress),
+            brk: inspectBrk !== undefined,
+          };
+        } catch (e) {
+          console.error(e instanceof Error ? e.message : String(e));
+          process.exit(1);
+        }
+      }
 
-        const logger = createLogger(logLevel ?? config.logLevel ?? 'info');
-        await nodeDev(updateConfig(config, logger.logLevel), {
+      const logger = createSharedLogger(configs, logLevel, argv.flags.logFormat);
+      const nodeDevResult = await nodeDev(
+        resolveConfig(programConfig, logger.logLevel, defaultWorkingDir, baseMode),
+        {
           args: argv._['--'] ?? [],
+          inspect: inspectOptions,
           logger,
           mode,
           respawn,
           check: argv.flags.check,
+          // Opt-in, since the program doesn't receive stdin while shortcuts are enabled
+          shortcuts: argv.flags.shortcuts,
           tsBuildMode: argv.flags.tsBuildMode,
-        });
-        break;
-      }
+          watchConfigs: configs
+            .filter(c => c !== programConfig)
+            .map(c => resolveConfig(c, logger.logLevel, defaultWorkingDir, baseMode)),
+        },
+      );
+      Graceful.on('exit', () => nodeDevResult.dispose());
+      process.exitCode = await nodeDevResult.done;
+      break;
+    }
 
-      case 'serve': {
-        const { host, mode, logLevel, port, livereload, servedir, noRewrite } = argv.flags;
-        const configResult =
-          typeof configParam === 'function' ? await configParam(mode, 'serve') : configParam;
+    case 'serve': {
+      const { host, mode, logLevel, port, livereload, servedir, noRewrite } = argv.flags;
+      const { https, httpsCert, httpsKey } = argv.flags;
+      const [configResult, defaultWorkingDir, baseMode] = await loadConfigResult(
+        loadConfig,
+        argv.flags.config,
+        mode,
+        'serve',
+      );
 
-        const config = getSingleConfigResult(
-          'serve',
-          configResult,
-          c => c.name === argv._.name,
-          c => !c.platform || c.platform === 'browser',
-        );
+      const { names } = argv._;
+      const configs = argv.flags.all
+        ? (Array.isArray(configResult) ? configResult : [configResult]).filter(isBrowserConfig)
+        : names.length > 1
+          ? getNamedConfigResults('serve', configResult, names)
+          : [getSingleConfigResult('serve', configResult, names[0], isBrowserConfig)];
+      exitWithConfigProblems(validateServeConfigs(configResult, configs));
 
-        const logger = createLogger(logLevel ?? config.logLevel ?? 'info');
-        await serve(updateConfig(config, logger.logLevel), {
+      const logger = createSharedLogger(configs, logLevel, argv.flags.logFormat);
+      const serveResult = await serve(
+        configs.map(c => resolveConfig(c, logger.logLevel, defaultWorkingDir, baseMode)),
+        {
           mode,
           host,
           port,
+          https,
+          httpsCert: httpsCert ? path.resolve(process.cwd(), httpsCert) : undefined,
+          httpsKey: httpsKey ? path.resolve(process.cwd(), httpsKey) : undefined,
           livereload,
           logger,
           servedir: servedir ? path.resolve(process.cwd(), servedir) : undefined,
           rewrite: !noRewrite,
           check: argv.flags.check,
+          shortcuts: !argv.flags.noShortcuts,
           tsBuildMode: argv.flags.tsBuildMode,
-        });
+        },
+      );
+      if (!serveResult) {
+        process.exitCode = 1;
         break;
       }
+      Graceful.on('exit', () => serveResult.dispose());
+      break;
+    }
 
-      case undefined:
-        argv.showHelp();
-        console.error('Expected one of the following commands: build, node-dev, serve');
-        process.exitCode = 1;
-        break;
+    case 'check-config': {
+      const { mode } = argv.flags;
+      const commandName = argv.flags.command;
+      const [configResult, defaultWorkingDir, baseMode] = await loadConfigResult(
+        loadConfig,
+        argv.flags.config,
+        mode,
+        commandName,
+      );
+
+      const { names } = argv._;
+      const configs =
+        names.length > 0
+          ? getNamedConfigResults('check-config', configResult, names)
+          : Array.isArray(configResult)
+            ? configResult
+            : [configResult];
+      if (commandName === 'serve') {
+        exitWithConfigProblems(validateServeConfigs(configResult, configs));
+      }
+
+      const resolvedConfigs = configs.map(config =>
+        resolveConfig(config, config.logLevel ?? 'info', defaultWorkingDir, baseMode),
+      );
+      console.log(
+        util.inspect(Array.isArray(configResult) ? resolvedConfigs : resolvedConfigs[0], {
+          colors: pc.isColorSupported,
+          depth: null,
+        }),
+      );
+      console.error(pc.green(`Configuration is valid for "${commandName}" in ${mode} mode`));
+      break;
     }
+
+    case 'inspect': {
+      const { mode } = argv.flags;
+      const commandName = argv.flags.command;
+      const [configResult, defaultWorkingDir, baseMode] = await loadConfigResult(
+        loadConfig,
+        argv.flags.config,
+        mode,
+        commandName,
+      );
+
+      const allConfigs = Array.isArray(configResult) ? configResult : [configResult];
+      const configs = argv._.name
+        ? getNamedConfigResults('inspect', configResult, [argv._.name])
+        : commandName === 'serve'
+          ? allConfigs.filter(isBrowserConfig)
+          : allConfigs;
+      if (commandName === 'serve') {
+        exitWithConfigProblems(validateServeConfigs(configResult, configs));
+      }
+
+      const inspections = await Promise.all(
+        configs.map(config =>
+          inspectConfig(config, {
+            // Configurations that node-dev doesn't run are built alongside the program
+            command:
+              commandName === 'node-dev' && configs.length > 1 && config.platform !== 'node'
+                ? 'build'
+                : commandName,
+            baseMode,
+            defaultWorkingDir,
+            mode,
+          }),
+        ),
+      );
+      console.log(
+        argv.flags.json
+          ? JSON.stringify(
+              inspections,
+              (_, value) => (typeof value === 'function' ? `[Function ${value.name}]` : value),
+              2,
+            )
+          : formatInspections(inspections),
+      );
+      break;
+    }
+
+    case undefined:
+      argv.showHelp();
+      console.error(
+        `Expected one of the following commands: ${[...COMMAND_NAMES, 'check-config', 'inspect'].join(', ')}`,
+      );
+      process.exitCode = 1;
+      break;
   }
+}
+
+function start(programName: string, standalone: boolean, loadConfig: ConfigLoader) {
+  const argv = parseArgv(programName, standalone);
 
   process.on('unhandledRejection', (reason: Error) => {
     console.error(`An error occurred that caused ${programName} to shut down.`);
@@ -288,8 +642,55 @@ export default function configure(configParam: EsbdConfigResult | ConfigFn) {
     process.exit(1);
   });
 
-  run().catch(err => {
+  run(argv, loadConfig).catch(err => {
     console.error(err);
     process.exit(1);
   });
 }
+
+let initialized = false;
+
+export interface ConfigureOptions {
+  /**
+   * Custom build modes that can be passed to `--mode`.
+   */
+  buildModes?: CustomBuildModes;
+}
+
+/**
+ * Configures one or more bundles that will be produced by this build script.
+ *
+ * @param configParam Configuration object, array, or function that defines the bundles.
+ * @param options Options that apply to every configuration, such as custom build modes.
+ */
+export default function configure(configParam: ConfigParam, options: ConfigureOptions = {}) {
+  if (initialized) {
+    console.error('"configure()" can only be used once per file');
+    process.exit(1);
+  }
+  initialized = true;
+
+  const programName = path.basename(path.relative(process.cwd(), process.argv[1]));
+  start(programName, false, () =>
+    Promise.resolve([configParam, process.cwd(), options.buildModes]),
+  );
+}
+
+/**
+ * Runs the standalone `esbd` CLI using a discovered (or specified) config file.
+ */
+export function runStandalone() {
+  start('esbd', true, async configPath => {
+    const cwd = process.cwd();
+    const absConfigPath = configPath ? path.resolve(cwd, configPath) : findConfigFile(cwd);
+
+    if (!absConfigPath) {
+      console.error(`Unable to find an esbd config file in ${cwd}`);
+      console.log(`Expected one of: ${CONFIG_FILE_NAMES.join(', ')}`);
+      process.exit(1);
+    }
+
+    const { buildModes, config } = await loadConfigFile(absConfigPath);
+    return [config, path.dirname(absConfigPath), buildModes];
+  });
+}
@@ -0,0 +1,140 @@
+import { promises as fsp } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+import type { CompressionFormat, CompressOptions } from './config';
+
+const DEFAULT_FORMATS: CompressionFormat[] = ['brotli', 'gzip'];
+const DEFAULT_THRESHOLD = 1024;
+const DEFAULT_EXTENSIONS = new Set([
+  '.cjs',
+  '.css',
+  '.html',
+  '.js',
+  '.json',
+  '.map',
+  '.mjs',
+  '.svg',
+  '.txt',
+  '.xml',
+]);
+
+export const COMPRESSED_EXTENSIONS: Record<CompressionFormat, string> = {
+  brotli: '.br',
+  gzip: '.gz',
+};
+
+/**
+ * `fast` is used in watch modes, where maximum compression would slow down every rebuild.
+ */
+export type CompressionLevel = 'fast' | 'max';
+
+// Still smaller than gzip's output, but much faster than the maximum quality
+const BROTLI_FAST_QUALITY = 4;
+
+const compressors: Record<
+  CompressionFormat,
+  (contents: Uint8Array, level: CompressionLevel) => Promise<Buffer>
+> = {
+  brotli: (contents, level) =>
+    promisify(zlib.brotliCompress)(contents, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_QUALITY]:
+          level === 'max' ? zlib.constants.BROTLI_MAX_QUALITY : BROTLI_FAST_QUALITY,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: contents.byteLength,
+      },
+    }),
+  gzip: (contents, level) =>
+    promisify(zlib.gzip)(contents, {
+      level: level === 'max' ? zlib.constants.Z_BEST_COMPRESSION : zlib.constants.Z_BEST_SPEED,
+    }),
+};
+
+/**
+ * Returns the compression formats that are enabled by the `compress` option.
+ */
+export function getCompressionFormats(
+  compress: boolean | CompressOptions | undefined,
+): CompressionFormat[] {
+  if (!compress) return [];
+  return compress === true ? DEFAULT_FORMATS : compress.formats ?? DEFAULT_FORMATS;
+}
+
+/**
+ * Returns the compression formats that should be written for an output file.
+ */
+function getFormatsForFile(
+  filePath: string,
+  byteLength: number,
+  compress: boolean | CompressOptions | undefined,
+): CompressionFormat[] {
+  const formats = getCompressionFormats(compress);
+  if (!formats.length) return [];
+
+  const ext = path.extname(filePath);
+  const threshold = typeof compress === 'object' ? compress.threshold : undefined;
+  const minSize =
+    typeof threshold === 'object'
+      ? threshold[ext]
+      : DEFAULT_EXTENSIONS.has(ext)
+        ? threshold ?? DEFAULT_THRESHOLD
+        : undefined;
+
+  return minSize !== undefined && byteLength >= minSize ? formats : [];
+}
+
+/**
+ * Returns the paths of the compressed files that will be written for an output file.
+ */
+export function getCompressedPaths(
+  filePath: string,
+  byteLength: number,
+  compress: boolean | CompressOptions | undefined,
+): string[] {
+  return getFormatsForFile(filePath, byteLength, compress).map(
+    format => filePath + COMPRESSED_EXTENSIONS[format],
+  );
+}
+
+/**
+ * Writes compressed copies of an output file alongside it, if it is eligible for
+ * compression. Compressed copies from previous builds that are no longer eligible
+ * (e.g., because the file is now below the threshold) are removed so that they
+ * aren't served instead of the file.
+ */
+export async function writeCompressedFiles(
+  filePath: string,
+  contents: Uint8Array,
+  compress: boolean | CompressOptions | undefined,
+  level: CompressionLevel = 'max',
+): Promise<void> {
+  const formats = getFormatsForFile(filePath, contents.byteLength, compress);
+  await Promise.all(
+    getCompressionFormats(compress).map(async format => {
+      const compressedPath = filePath + COMPRESSED_EXTENSIONS[format];
+      if (formats.includes(format)) {
+        await fsp.writeFile(compressedPath, await compressors[format](contents, level));
+      } else {
+        await fsp.rm(compressedPath, { force: true });
+      }
+    }),
+  );
+}
+
+/**
+ * Wraps `writeFile` so that compressed copies are written along with each file.
+ */
+export function compressedWriteFile(
+  compress: boolean | CompressOptions | undefined,
+  level: CompressionLevel = 'max',
+): (typeof fsp)['writeFile'] {
+  if (!getCompressionFormats(compress).length) return fsp.writeFile;
+
+  return async (file, data, options) => {
+    await fsp.writeFile(file, data, options);
+    if (typeof file === 'string' && (typeof data === 'string' || data instanceof Uint8Array)) {
+      await writeCompressedFiles(file, Buffer.from(data), compress, level);
+    }
+  };
+}
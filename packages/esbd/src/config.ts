@@ -1,18 +1,302 @@
-import type { BuildOptions } from 'esbuild';
+import type { BuildOptions, LogLevel } from 'esbuild';
+import path from 'path';
 
-export type BuildMode = 'development' | 'production';
+/**
+ * Build mode: `development`, `production`, or a custom mode declared in `buildModes`.
+ */
+export type BuildMode = BaseBuildMode | (string & NonNullable<unknown>);
 export type CommandName = 'build' | 'node-dev' | 'serve';
+export type CompressionFormat = 'brotli' | 'gzip';
 export type HashAlgorithm = 'sha256' | 'sha384' | 'sha512';
+export type RestartSignal = 'SIGINT' | 'SIGTERM' | 'SIGUSR2';
 
 export const BUILD_MODES = ['development', 'production'] as const;
+export const COMMAND_NAMES = ['build', 'node-dev', 'serve'] as const;
 export const TS_BUILD_MODES = ['readonly', 'write-output'] as const;
 
+export type BaseBuildMode = (typeof BUILD_MODES)[number];
 export type TsBuildMode = (typeof TS_BUILD_MODES)[number];
 
+/**
+ * Custom build modes, each mapped to the built-in mode whose defaults (e.g.,
+ * `minify` and `sourcemap`) it uses.
+ *
+ * @example
+ * ```ts
+ * export const buildModes = { staging: 'production', test: 'development' };
+ * ```
+ */
+export type CustomBuildModes = Record<string, BaseBuildMode>;
+
+export interface ProxyOptions {
+  /**
+   * Origin (and optionally a base path) that matching requests will be forwarded to,
+   * e.g., `http://localhost:3000`.
+   */
+  target: string;
+
+  /**
+   * Rewrite the `Host` header of proxied requests to match the target.
+   *
+   * @default false
+   */
+  changeOrigin?: boolean;
+
+  /**
+   * Additional headers to add to proxied requests.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Rewrites the request path before it is forwarded.
+   *
+   * If an object is provided, each key is treated as a regular expression
+   * that will be replaced by its corresponding value.
+   */
+  pathRewrite?: Record<string, string> | ((path: string) => string);
+
+  /**
+   * Forward WebSocket upgrade requests.
+   *
+   * @default false
+   */
+  ws?: boolean;
+}
+
+export interface CompressOptions {
+  /**
+   * Compressed files to write for each output. Brotli-compressed files are
+   * written with a `.br` extension and gzip-compressed files with a `.gz` extension.
+   *
+   * @default ['brotli', 'gzip']
+   */
+  formats?: CompressionFormat[];
+
+  /**
+   * Minimum size of an output file, in bytes, for it to be compressed.
+   *
+   * If an object is provided, each key is a file extension (e.g., `.js`) and
+   * each value is the minimum size for files with that extension. Files with
+   * other extensions will not be compressed.
+   *
+   * @default 1024
+   */
+  threshold?: number | Record<string, number>;
+}
+
+export interface RespawnPolicy {
+  /**
+   * Number of times the program can exit within `window` before esbd stops
+   * restarting it.
+   *
+   * @default 3
+   */
+  maxRestarts?: number;
+
+  /**
+   * Time window (in milliseconds) in which exits are counted towards `maxRestarts`.
+   *
+   * @default 5000
+   */
+  window?: number;
+
+  /**
+   * Delay (in milliseconds) before the program is restarted after it exits. The
+   * delay doubles for each exit within `window`, up to `maxBackoff`.
+   *
+   * @default 0
+   */
+  backoff?: number;
+
+  /**
+   * Maximum delay (in milliseconds) before the program is restarted.
+   *
+   * @default 30000
+   */
+  maxBackoff?: number;
+
+  /**
+   * Exit codes after which the program is restarted. By default, the program
+   * is restarted whenever it exits.
+   */
+  exitCodes?: number[];
+}
+
+export interface NodeDevProcess {
+  /**
+   * Name of the entry point to run. Defaults to the name of the process.
+   */
+  entry?: string;
+
+  /**
+   * Arguments that are passed to the process, followed by any arguments
+   * that were passed to `node-dev` after `--`.
+   */
+  args?: string[];
+}
+
+export interface NodeDevOptions {
+  /**
+   * Name of the entry point to run. Defaults to the first entry point.
+   */
+  main?: string;
+
+  /**
+   * Long-running processes to start instead of a single program, e.g., an API
+   * server and a queue worker. Each key is a process name that prefixes the
+   * output of the process. Processes are restarted independently of each other
+   * and `main` is ignored when this is set.
+   *
+   * @example
+   * ```ts
+   * processes: {
+   *   api: { entry: 'server' },
+   *   worker: { args: ['--concurrency', '2'] },
+   * }
+   * ```
+   */
+  processes?: Record<string, NodeDevProcess>;
+
+  /**
+   * Signal that is sent to the program to stop it when it needs to be restarted.
+   *
+   * @default "SIGTERM"
+   */
+  restartSignal?: RestartSignal;
+
+  /**
+   * Time to wait (in milliseconds) for the program to exit after `restartSignal`
+   * has been sent before it is forcibly stopped with `SIGKILL`.
+   *
+   * @default 5000
+   */
+  killTimeout?: number;
+
+  /**
+   * Keep the previous instance of the program running until the new instance
+   * reports that it is ready by calling `process.send('ready')`. If the new
+   * instance exits before it is ready, the previous instance will keep running.
+   *
+   * Both instances will be running at the same time, so the program must be able to
+   * start while the previous instance is still running, e.g., by listening with `reusePort`.
+   *
+   * This option is ignored when the inspector is enabled, since the inspector port
+   * can't be shared, so the previous instance is stopped before the new one starts.
+   *
+   * @default false
+   */
+  waitForReady?: boolean;
+
+  /**
+   * Restart the program when it exits. Setting this option is the same as
+   * passing `--respawn`, and the policy object controls when and how often
+   * the program is restarted.
+   */
+  respawn?: boolean | RespawnPolicy;
+
+  /**
+   * When the program crashes and is not restarted, keep watching for changes and
+   * start it again after the next change instead of exiting.
+   *
+   * @default false
+   */
+  waitForChange?: boolean;
+}
+
+export interface SizeThresholds {
+  /**
+   * Maximum size of an output file, in bytes.
+   */
+  raw?: number;
+
+  /**
+   * Maximum size of an output file after gzip compression, in bytes.
+   */
+  gzip?: number;
+
+  /**
+   * Maximum size of an output file after brotli compression, in bytes.
+   */
+  brotli?: number;
+
+  /**
+   * Maximum growth of an output file compared with the size snapshot saved
+   * by the previous build, either in bytes or as a percentage (e.g., `'10%'`).
+   * Applies to each of the sizes that are measured for the file.
+   */
+  increase?: number | `${number}%`;
+}
+
+export interface SizeBudget {
+  /**
+   * Thresholds that produce warnings when they are exceeded.
+   */
+  warning?: SizeThresholds;
+
+  /**
+   * Thresholds that produce errors when they are exceeded. Errors cause
+   * `build` to exit with a non-zero exit code unless it is in watch mode.
+   */
+  error?: SizeThresholds;
+}
+
 type BuildOptionsWithEntryPoints = Omit<BuildOptions, 'entryPoints' | 'bundle' | 'write'> &
   Required<Pick<BuildOptions, 'entryPoints'>>;
 
 export interface EsbdSpecificOptions {
+  /**
+   * Size limits for output files produced by `build`.
+   *
+   * Each key is either the name of an entry point or a glob pattern that is
+   * matched against output paths relative to `outdir`. Budgets apply to each
+   * matching output file individually, including CSS files that are produced
+   * by JS entry points.
+   *
+   * Violations are reported alongside esbuild's errors and warnings.
+   *
+   * @example
+   * ```ts
+   * budgets: {
+   *   app: { warning: { gzip: 100_000 }, error: { gzip: 150_000, increase: '10%' } },
+   *   'chunks/*.js': { warning: { raw: 250_000 } },
+   * }
+   * ```
+   */
+  budgets?: Record<string, SizeBudget>;
+
+  /**
+   * Path of the file used to save output sizes between builds, for comparison
+   * with the `increase` thresholds in `budgets`. Relative paths are resolved
+   * from `absWorkingDir`. Commit this file to compare sizes across CI builds.
+   *
+   * @default "node_modules/.cache/esbd/<name>-sizes.json"
+   */
+  budgetSnapshot?: string;
+
+  /**
+   * Overrides that are applied when running a specific command, after the
+   * overrides in `modes`.
+   *
+   * @example
+   * ```ts
+   * commands: {
+   *   serve: { define: { 'process.env.API_URL': '"/api"' } },
+   * }
+   * ```
+   */
+  commands?: Partial<Record<CommandName, EsbdConfigOverrides>>;
+
+  /**
+   * Base configuration(s) that this configuration extends. Bases are merged in
+   * order (including their own `extends`, `modes` and `commands`) before the
+   * options of this configuration are merged on top of them.
+   *
+   * Objects are merged deeply, `plugins`, `copy`, `external` and `inject` are
+   * concatenated (plugins with the same name replace the base's plugin) and
+   * other values, including `entryPoints` and other arrays, replace the base's value.
+   */
+  extends?: EsbdBaseConfig | EsbdBaseConfig[];
+
   /**
    * Keep the output directory clean.
    *
@@ -28,20 +312,43 @@ export interface EsbdSpecificOptions {
    */
   cleanOutdir?: boolean;
 
+  /**
+   * Write precompressed copies of output files alongside the originals.
+   *
+   * If `true`, text-based outputs (JS, CSS, HTML, JSON, SVG, etc.) that are at least
+   * 1 kB will be compressed using both brotli and gzip. Compressed files are removed
+   * along with their originals when `cleanOutdir` is enabled, and when their original
+   * is no longer eligible for compression. Watch modes and `serve` use a lower
+   * compression level so that rebuilds stay fast.
+   *
+   * When running `serve`, compressed files will be served to clients that
+   * accept the corresponding `Content-Encoding`.
+   *
+   * @default false
+   */
+  compress?: boolean | CompressOptions;
+
   /**
    * Files to copy to the output directory during the build.
    *
-   * Each entry is a tuple representing the source file path to copy
-   * and, optionally, the destination file path.
+   * Each entry is a tuple representing the source path to copy
+   * and, optionally, the destination path.
    *
    * Source paths may be absolute or relative to `absWorkingDir`. Destination
    * paths may be absolute or relative to `outdir`. If no destination path is
    * provided, the source file will be copied to `outdir` with the same name.
    *
-   * If `esbd` is started in a watch mode (serve, node-dev, or build --watch),
-   * source files will be watched and copied whenever they change.
+   * Source paths may also be directories or glob patterns (e.g., `assets/fonts/*.woff2`).
+   * Directories are copied recursively. Files matching a glob pattern are copied
+   * into the destination directory (or `outdir` if none is provided), preserving
+   * their paths relative to the non-glob portion of the pattern. Files in
+   * `node_modules` directories and in `outdir` are skipped, unless the source
+   * path points inside of them.
    *
-   * Note that `copy` does not support glob patterns.
+   * If `esbd` is started in a watch mode (serve, node-dev, or build --watch),
+   * source files will be watched and copied whenever they change. Files that are
+   * added to or removed from a copied directory or glob pattern will be copied
+   * or removed from the output directory, respectively.
    */
   copy?: [from: string, to?: string][];
 
@@ -64,6 +371,22 @@ export interface EsbdSpecificOptions {
    */
   cssChunkFilter?: (absFilePath: string) => boolean | null | undefined;
 
+  /**
+   * Prefix of environment variables that are exposed to browser bundles.
+   *
+   * Variables from `.env`, `.env.local` and `.env.<mode>` files in `absWorkingDir`
+   * (and from the environment of the esbd process) whose names start with this
+   * prefix will be defined as `process.env.<NAME>` and can be substituted in HTML
+   * templates as `{{NAME}}`. Values in `define` take precedence.
+   *
+   * Environment files are always loaded into the environment of programs started
+   * by `node-dev`, regardless of this option.
+   *
+   * @example "PUBLIC_"
+   * @default undefined
+   */
+  envPrefix?: string;
+
   /**
    * By default, assets (images, manifests, scripts, etc.) referenced by `<link>`, `<style>` and
    * `<script>` tags in the HTML template will be collected as esbuild assets if their `src` attributes
@@ -89,12 +412,64 @@ export interface EsbdSpecificOptions {
    */
   integrity?: HashAlgorithm;
 
+  /**
+   * Write a JSON manifest that maps each entry point name to the output files
+   * needed to load it, for use by servers that render their own HTML.
+   *
+   * Each entry lists its `js` and `css` outputs, the chunks that it `imports`
+   * statically and the `assets` that it references, with `publicPath` applied.
+   * If `integrity` is set, an `integrity` object maps each JS and CSS URL to its hash.
+   *
+   * If `true`, the manifest will be written to `manifest.json` in `outdir`. If a
+   * string is provided, it will be used as the manifest path relative to `outdir`.
+   * The manifest is rewritten after every successful build.
+   *
+   * @default false
+   */
+  manifest?: boolean | string;
+
+  /**
+   * Overrides that are applied in a specific build mode, including custom modes
+   * declared in `buildModes`, using the same merge rules as `extends`.
+   *
+   * @example
+   * ```ts
+   * modes: {
+   *   development: { sourcemap: 'inline' },
+   *   production: { integrity: 'sha384', manifest: true },
+   * }
+   * ```
+   */
+  modes?: Partial<Record<BuildMode, EsbdConfigOverrides>>;
+
   /**
    * Name of this configuration.
    *
    * This is required for configurations that appear in an array.
    */
   name?: string;
+
+  /**
+   * Options for running the program with `node-dev`.
+   */
+  nodeDev?: NodeDevOptions;
+
+  /**
+   * Requests to forward to other servers when running `serve`.
+   *
+   * Each key is a path prefix (e.g., `/api`) and each value is either a target
+   * origin or an object describing how requests should be forwarded. Proxied
+   * requests are handled before any files are served from `outdir` or `servedir`.
+   *
+   * @example
+   * ```ts
+   * proxy: {
+   *   '/api': 'http://localhost:3000',
+   *   '/socket': { target: 'http://localhost:3001', ws: true, changeOrigin: true },
+   * }
+   * ```
+   */
+  proxy?: Record<string, string | ProxyOptions>;
 }
 
 export interface EsbdConfig extends EsbdSpecificOptions, BuildOptionsWithEntryPoints {}
@@ -103,6 +478,18 @@ export interface NamedEsbdConfig extends EsbdConfig {
   name: string;
 }
 
+/**
+ * Configuration that other configurations can extend. Entry points are optional.
+ */
+export type EsbdBaseConfig = Partial<Omit<EsbdConfig, 'name'>>;
+
+/**
+ * Options that can be overridden for a build mode or command.
+ */
+export type EsbdConfigOverrides = Partial<
+  Omit<EsbdConfig, 'commands' | 'extends' | 'modes' | 'name'>
+>;
+
 /**
  * Configuration export or the return value of a configuration function.
  */
@@ -117,4 +504,49 @@ export type ConfigFn = (
 ) => EsbdConfigResult | Promise<EsbdConfigResult>;
 
 export type ResolvedEsbdConfig = Omit<EsbdConfig, 'plugins' | 'absWorkingDir' | 'outdir'> &
-  Required<Pick<EsbdConfig, 'plugins' | 'absWorkingDir' | 'outdir'>> & { name?: string };
+  Required<Pick<EsbdConfig, 'plugins' | 'absWorkingDir' | 'outdir'>> & {
+    /** Built-in mode whose defaults are used for the current mode. */
+    baseMode: BaseBuildMode;
+    name?: string;
+  };
+
+/**
+ * Provides type checking for the default export of an `esbd.config.*` file.
+ *
+ * @param config Configuration object, array, or function that defines the bundles.
+ */
+export function defineConfig<T extends EsbdConfigResult | ConfigFn>(config: T): T {
+  return config;
+}
+
+/**
+ * Returns the built-in mode whose defaults are used for `mode`, or `undefined`
+ * if `mode` is neither a built-in mode nor one of `buildModes`.
+ */
+export function getBaseMode(
+  mode: BuildMode,
+  buildModes: CustomBuildModes = {},
+): BaseBuildMode | undefined {
+  if ((BUILD_MODES as readonly string[]).includes(mode)) return mode as BaseBuildMode;
+  return Object.prototype.hasOwnProperty.call(buildModes, mode) ? buildModes[mode] : undefined;
+}
+
+/**
+ * Fills in the options that esbd requires but that can be omitted from a configuration.
+ */
+export function resolveConfig(
+  config: EsbdConfig,
+  logLevel: LogLevel,
+  defaultWorkingDir: string,
+  baseMode: BaseBuildMode,
+): ResolvedEsbdConfig {
+  const absWorkingDir = config.absWorkingDir ?? defaultWorkingDir;
+  return {
+    ...config,
+    absWorkingDir,
+    baseMode,
+    logLevel,
+    outdir: config.outdir ?? path.join(absWorkingDir, 'dist'),
+    plugins: config.plugins ?? [],
+  };
+}
@@ -0,0 +1,292 @@
+import type { FSWatcher } from 'fs';
+import { watch as fsWatch } from 'fs';
+import { copyFile, mkdir, readdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import picomatch from 'picomatch';
+
+export type CopyOption = [from: string, to?: string];
+
+/**
+ * A normalized `copy` entry.
+ *
+ * - `path` entries copy a single file to `to`, or every file under a directory
+ *   (recursively) into `to`. Whether `from` is a file or a directory is checked
+ *   every time it is copied, since it may not exist yet or may be replaced.
+ * - `glob` entries copy every file under `from` that matches `isMatch` into `to`,
+ *   where `from` is the static base directory of the glob pattern.
+ *
+ * Directories below `from` that are named `node_modules` or that are inside
+ * `absOutDir` are never copied, since a pattern without a static base (e.g.,
+ * `*.txt`) would otherwise copy dependencies and earlier build output.
+ */
+export interface CopyRule {
+  type: 'path' | 'glob';
+  from: string;
+  to: string;
+  absOutDir: string;
+  isMatch?: (relativePath: string) => boolean;
+}
+
+const IGNORED_DIR_NAMES = new Set(['node_modules']);
+
+function isWithin(parent: string, file: string): boolean {
+  return file === parent || file.startsWith(parent + path.sep);
+}
+
+function isIgnoredDir(rule: CopyRule, dir: string): boolean {
+  if (IGNORED_DIR_NAMES.has(path.basename(dir))) return true;
+  return isWithin(rule.absOutDir, dir) && !isWithin(rule.absOutDir, rule.from);
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+/**
+ * Resolves `copy` option entries to absolute paths and determines whether
+ * each entry is a path or a glob pattern.
+ */
+export function normalizeCopyRules(
+  copy: CopyOption[],
+  basedir: string,
+  absOutDir: string,
+): CopyRule[] {
+  return copy.map(([from, to]) => {
+    const scan = picomatch.scan(toPosix(from));
+    if (scan.isGlob) {
+      const isMatch = picomatch(scan.glob, { dot: true });
+      return {
+        type: 'glob',
+        from: path.resolve(basedir, scan.base),
+        to: path.resolve(absOutDir, to ?? ''),
+        absOutDir,
+        isMatch: relativePath => isMatch(toPosix(relativePath)),
+      };
+    }
+
+    return {
+      type: 'path',
+      from: path.resolve(basedir, from),
+      to: path.resolve(absOutDir, to ?? (path.isAbsolute(from) ? path.basename(from) : from)),
+      absOutDir,
+    };
+  });
+}
+
+async function walk(dir: string, isIgnored: (dir: string) => boolean): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files = await Promise.all(
+    entries.map(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return isIgnored(entryPath) ? [] : walk(entryPath, isIgnored);
+      return entry.isFile() ? [entryPath] : [];
+    }),
+  );
+  return files.flat();
+}
+
+/**
+ * Expands a copy rule into concrete `[from, to]` file pairs.
+ */
+export async function resolveCopyRule(rule: CopyRule): Promise<[string, string][]> {
+  if (rule.type === 'path') {
+    try {
+      if (!(await stat(rule.from)).isDirectory()) return [[rule.from, rule.to]];
+    } catch {
+      // Missing sources are reported when the copy is attempted
+      return [[rule.from, rule.to]];
+    }
+  }
+
+  const files = await walk(rule.from, dir => isIgnoredDir(rule, dir));
+  return files
+    .map(file => path.relative(rule.from, file))
+    .filter(relativePath => !rule.isMatch || rule.isMatch(relativePath))
+    .map(relativePath => [path.join(rule.from, relativePath), path.join(rule.to, relativePath)]);
+}
+
+/**
+ * Returns the destination path for a source file if it is covered by the given rule.
+ */
+export function getCopyDestination(rule: CopyRule, absFile: string): string | undefined {
+  if (rule.type === 'path' && absFile === rule.from) return rule.to;
+
+  const relativePath = path.relative(rule.from, absFile);
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return undefined;
+  }
+  for (let dir = path.dirname(absFile); dir !== rule.from; dir = path.dirname(dir)) {
+    if (isIgnoredDir(rule, dir)) return undefined;
+  }
+  if (rule.isMatch && !rule.isMatch(relativePath)) return undefined;
+
+  return path.join(rule.to, relativePath);
+}
+
+export async function copyAsset(from: string, to: string): Promise<void> {
+  await mkdir(path.dirname(to), { recursive: true });
+  await copyFile(from, to);
+}
+
+export async function removeAsset(to: string): Promise<void> {
+  await rm(to, { force: true });
+}
+
+function isDirectory(absPath: string): Promise<boolean> {
+  return stat(absPath).then(
+    stats => stats.isDirectory(),
+    () => false,
+  );
+}
+
+/**
+ * Watches `target` and, if it is a directory, every directory below it, calling
+ * `onFile` whenever a file is added, changed or removed.
+ *
+ * Recursive `fs.watch` isn't available on Linux before Node 20, so each directory
+ * has its own watcher. The closest existing parent of `target` is watched as well,
+ * so that `target` is picked up when it's created or replaced. Directories below
+ * `target` for which `isIgnored` returns `true` are not watched.
+ */
+function watchTree(
+  target: string,
+  isIgnored: (dir: string) => boolean,
+  signal: AbortSignal,
+  onFile: (absFile: string, removed: boolean) => void,
+  onError: (error: unknown) => void,
+): void {
+  const watchers = new Map<string, FSWatcher>();
+  const files = new Set<string>();
+  let anchor: string | undefined;
+
+  function unwatch(dir: string) {
+    for (const [watchedDir, watcher] of watchers) {
+      if (watchedDir !== anchor && isWithin(dir, watchedDir)) {
+        watcher.close();
+        watchers.delete(watchedDir);
+      }
+    }
+  }
+
+  function watchDir(dir: string) {
+    if (signal.aborted || watchers.has(dir)) return;
+    try {
+      const watcher = fsWatch(dir, { persistent: false }, (_event, filename) => {
+        update(dir, filename?.toString()).catch(onError);
+      });
+      watcher.on('error', error => {
+        watcher.close();
+        watchers.delete(dir);
+        // Watchers fail when their directory is removed, which is handled like any other removal
+        isDirectory(dir)
+          .then(exists => (exists ? onError(error) : update(dir)))
+          .catch(onError);
+      });
+      watchers.set(dir, watcher);
+    } catch (e) {
+      // The directory was removed before it could be watched
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') onError(e);
+    }
+  }
+
+  async function add(absPath: string, initial: boolean) {
+    let stats;
+    try {
+      stats = await stat(absPath);
+    } catch {
+      remove(absPath);
+      return;
+    }
+
+    if (!stats.isDirectory()) {
+      files.add(absPath);
+      if (!initial) onFile(absPath, false);
+      return;
+    }
+
+    // Files in watched directories are reported by their own watchers
+    if (watchers.has(absPath) || (absPath !== target && isIgnored(absPath))) return;
+    watchDir(absPath);
+    const entries = await readdir(absPath).catch(() => []);
+    await Promise.all(entries.map(entry => add(path.join(absPath, entry), initial)));
+  }
+
+  function remove(absPath: string) {
+    unwatch(absPath);
+    for (const file of files) {
+      if (isWithin(absPath, file)) {
+        files.delete(file);
+        onFile(file, true);
+      }
+    }
+  }
+
+  async function findAnchor(): Promise<string> {
+    let dir = path.dirname(target);
+    while (!(await isDirectory(dir))) {
+      const parent = path.dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+    return dir;
+  }
+
+  async function start(initial: boolean) {
+    const nextAnchor = await findAnchor();
+    if (nextAnchor !== anchor) {
+      if (anchor) {
+        watchers.get(anchor)?.close();
+        watchers.delete(anchor);
+      }
+      anchor = nextAnchor;
+      watchDir(anchor);
+    }
+    await add(target, initial);
+  }
+
+  async function update(dir: string, filename?: string) {
+    const absPath = filename ? path.join(dir, filename) : dir;
+    if (isWithin(target, absPath)) {
+      await add(absPath, false);
+    } else if (isWithin(absPath, target) || (dir === anchor && !(await isDirectory(dir)))) {
+      // The target or one of its parents was created or removed
+      await start(false);
+    }
+  }
+
+  signal.addEventListener('abort', () => {
+    watchers.forEach(watcher => watcher.close());
+    watchers.clear();
+  });
+
+  start(true).catch(onError);
+}
+
+/**
+ * Watches the source of a copy rule and invokes `onChange` whenever a matching
+ * file is added, changed or removed. Errors that occur while watching are
+ * passed to `onError` and don't stop other files from being watched.
+ */
+export function watchCopyRule(
+  rule: CopyRule,
+  signal: AbortSignal,
+  onChange: (from: string, to: string, removed: boolean) => void,
+  onError: (error: unknown) => void,
+): void {
+  watchTree(
+    rule.from,
+    dir => isIgnoredDir(rule, dir),
+    signal,
+    (absFile, removed) => {
+      const to = getCopyDestination(rule, absFile);
+      if (to) onChange(absFile, to, removed);
+    },
+    onError,
+  );
+}
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import pc from 'picocolors';
+
+import type { BuildMode } from './config';
+import type { Logger } from './log';
+
+// Adapted from https://github.com/motdotla/dotenv
+const LINE =
+  /^\s*(?:export\s+)?([\w.-]+)\s*=[ \t]*('(?:\\'|[^'])*'|"(?:\\"|[^"])*"|`(?:\\`|[^`])*`|[^#\r\n]*)?[ \t]*(?:#.*)?$/gm;
+
+/**
+ * Parses the contents of a `.env` file.
+ */
+export function parseEnv(contents: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  const lines = contents.replace(/\r\n?/g, '\n');
+
+  for (const [, key, rawValue = ''] of lines.matchAll(LINE)) {
+    let value = rawValue.trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'" || quote === '`') && value.endsWith(quote)) {
+      value = value.slice(1, -1);
+      if (quote === '"') value = value.replace(/\\n/g, '\n').replace(/\\r/g, '\r');
+    }
+    env[key] = value;
+  }
+  return env;
+}
+
+/**
+ * Returns the names of the environment files for a mode, in order of increasing priority.
+ */
+export function getEnvFileNames(mode: BuildMode): string[] {
+  return ['.env', '.env.local', `.env.${mode}`];
+}
+
+/**
+ * Reads the environment files for a mode from a directory. Variables in later
+ * files override those in earlier files, but variables that are already set in
+ * the environment of the esbd process are not included.
+ */
+export function loadEnv(absWorkingDir: string, mode: BuildMode): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const fileName of getEnvFileNames(mode)) {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(path.join(absWorkingDir, fileName), 'utf-8');
+    } catch {
+      continue;
+    }
+    Object.assign(env, parseEnv(contents));
+  }
+
+  for (const key of Object.keys(env)) {
+    if (process.env[key] !== undefined) delete env[key];
+  }
+  return env;
+}
+
+/**
+ * Returns the variables from the environment files and the environment of the
+ * esbd process whose names start with `prefix`.
+ */
+export function getPublicEnv(
+  absWorkingDir: string,
+  mode: BuildMode,
+  prefix: string,
+): Record<string, string> {
+  const env = { ...loadEnv(absWorkingDir, mode), ...process.env };
+  const publicEnv: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (key.startsWith(prefix) && value !== undefined) publicEnv[key] = value;
+  }
+  return publicEnv;
+}
+
+/**
+ * Calls `onChange` whenever one of the environment files for a mode is created,
+ * changed or removed.
+ */
+export function watchEnvFiles(
+  absWorkingDir: string,
+  mode: BuildMode,
+  signal: AbortSignal,
+  logger: Logger,
+  onChange: () => Promise<void>,
+): void {
+  const fileNames = new Set(getEnvFileNames(mode));
+  let timeout: NodeJS.Timeout | undefined;
+
+  // The directory is watched because the files might not exist yet
+  const watcher = fs.watch(absWorkingDir, { persistent: false, signal }, (_, fileName) => {
+    if (!fileName || !fileNames.has(fileName.toString()) || signal.aborted) return;
+
+    clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      logger.info(pc.gray(`${fileName} changed, reloading environment`));
+      onChange().catch(e => logger.error(e instanceof Error ? e.message : String(e)));
+    }, 100);
+  });
+  watcher.on('error', () => {});
+}
@@ -1,57 +1,160 @@
-import type { TypecheckRunner as TypecheckRunnerCls } from '@jgoz/esbuild-plugin-typecheck';
+import type { BuildOptions, Metafile, Plugin } from 'esbuild';
 import fs from 'fs';
-import { dirname, relative } from 'path';
+import { dirname, relative, resolve } from 'path';
 import pc from 'picocolors';
 import prettyBytes from 'pretty-bytes';
 
+import { mergeMetafiles, writeAnalysis } from './analyze';
+import { budgetChecker } from './budgets';
+import type { CompressionLevel } from './compress';
+import { compressedWriteFile, writeCompressedFiles } from './compress';
 import type { BuildMode, ResolvedEsbdConfig, TsBuildMode } from './config';
 import { getBuildOptions, getHtmlBuildOptions } from './get-build-options';
 import { writeTemplate } from './html-entry-point';
-import type { IncrementalBuildResult } from './incremental-build';
+import type { IncrementalBuildContext, IncrementalBuildResult } from './incremental-build';
 import { incrementalBuild } from './incremental-build';
 import type { Logger } from './log';
+import { createDerivedLogger, PREFIX_COLORS } from './log';
+import { manifestWriter } from './manifest';
+import { buildShortcuts, enableShortcuts } from './shortcuts';
+import type { BuildSummary } from './timing-plugin';
 import { timingPlugin } from './timing-plugin';
+import { startTypecheck } from './typecheck';
+import { watchPublicEnv } from './watch-env';
+import { watchTemplates } from './watch-templates';
 
-interface EsbdBuildOptions {
+export interface EsbdBuildOptions {
+  analyze?: boolean;
   logger: Logger;
   mode: BuildMode;
   watch: boolean;
   check?: boolean;
+  shortcuts?: boolean;
   tsBuildMode?: TsBuildMode;
+
+  /**
+   * Hold back the output of each configuration until its build finishes so
+   * that the output of parallel builds isn't interleaved.
+   */
+  bufferOutput?: boolean;
+
+  /**
+   * Called with the summary of each HTML and source build.
+   */
+  onSummary?: (summary: BuildSummary) => void;
 }
 
+/**
+ * Builds several configurations in parallel. In watch mode, the returned
+ * contexts remain active until they are disposed.
+ */
 export default async function esbdBuildMulti(
   configs: ResolvedEsbdConfig[],
   options: EsbdBuildOptions,
-) {
-  if (options.check) {
-    const TypecheckRunner: typeof TypecheckRunnerCls =
-      require('@jgoz/esbuild-plugin-typecheck').TypecheckRunner;
-
-    const checks = new Map<string, TypecheckRunnerCls>();
-    for (const config of configs) {
-      const runner = new TypecheckRunner({
-        absWorkingDir: config.absWorkingDir,
-        build: options.tsBuildMode ? true : undefined,
-        buildMode: options.tsBuildMode,
-        configFile: config.tsconfig,
+): Promise<IncrementalBuildContext[]> {
+  // Label the output of each configuration when several are built in parallel
+  const labeled = configs.length > 1;
+
+  const typecheckRunners = options.check
+    ? startTypecheck(configs, {
+        labeled,
         logger: options.logger,
         omitStartLog: true,
+        tsBuildMode: options.tsBuildMode,
         watch: options.watch,
-      });
-      checks.set(runner.configPath, runner);
-    }
+      })
+    : [];
 
-    checks.forEach(runner => {
-      runner.start();
-      runner.logger.info('Type checking enabled');
-    });
+  const summaries = new Map<ResolvedEsbdConfig, BuildSummary[]>();
+  const contexts = (
+    await Promise.all(
+      configs.map((config, i) => {
+        summaries.set(config, []);
+        return esbdBuild(config, {
+          ...options,
+          logger:
+            labeled && config.name
+              ? createDerivedLogger(options.logger, config.name, {
+                  buffer: options.bufferOutput,
+                  color: PREFIX_COLORS[i % PREFIX_COLORS.length],
+                })
+              : options.logger,
+          onSummary: summary => summaries.get(config)?.push(summary),
+        });
+      }),
+    )
+  ).flat();
+
+  if (labeled && !options.watch) {
+    logSummary(configs, summaries, options.logger);
+  }
+
+  if (options.watch && options.shortcuts) {
+    let disableShortcuts = enableShortcuts(
+      buildShortcuts(contexts, typecheckRunners),
+      options.logger,
+    );
+    // Restore the terminal when the contexts are disposed so that the process can exit
+    const restoreTerminal = () => {
+      disableShortcuts?.();
+      disableShortcuts = undefined;
+    };
+    contexts.forEach(context => context.signal.addEventListener('abort', restoreTerminal));
   }
 
-  await Promise.all(configs.map(config => esbdBuild(config, options)));
+  return contexts;
+}
+
+/**
+ * Logs a table with the combined errors, warnings and duration of the HTML
+ * and source builds of each configuration.
+ */
+function logSummary(
+  configs: ResolvedEsbdConfig[],
+  summaries: Map<ResolvedEsbdConfig, BuildSummary[]>,
+  logger: Logger,
+) {
+  const rows = configs.map((config, i) => {
+    const builds = summaries.get(config) ?? [];
+    return {
+      name: config.name ?? `#${i + 1}`,
+      // The HTML and source builds run in parallel
+      duration: Math.max(0, ...builds.map(build => build.duration)),
+      errors: builds.reduce((sum, build) => sum + build.errors, 0),
+      warnings: builds.reduce((sum, build) => sum + build.warnings, 0),
+    };
+  });
+
+  logger.event({ type: 'build-summary', configs: rows });
+  if (logger.logFormat === 'json') return;
+
+  const table = [
+    ['Config', 'Errors', 'Warnings', 'Duration'],
+    ...rows.map(row => [row.name, `${row.errors}`, `${row.warnings}`, `${row.duration}ms`]),
+  ];
+  const widths = table[0].map((_, column) => Math.max(...table.map(cells => cells[column].length)));
+  const format = (cells: string[]) =>
+    cells
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  logger.info(pc.bold(format(table[0])));
+  rows.forEach((row, i) => {
+    const line = format(table[i + 1]);
+    const log = row.errors ? logger.error : row.warnings ? logger.warn : logger.info;
+    log(line);
+  });
 }
 
-async function esbdBuild(config: ResolvedEsbdConfig, options: EsbdBuildOptions) {
+/**
+ * Builds a single configuration. In watch mode, the returned contexts remain
+ * active until they are disposed.
+ */
+export async function esbdBuild(
+  config: ResolvedEsbdConfig,
+  options: EsbdBuildOptions,
+): Promise<IncrementalBuildContext[]> {
   const { entryPoints } = config;
 
   const entries = Array.isArray(entryPoints)
@@ -61,99 +164,186 @@ async function esbdBuild(config: ResolvedEsbdConfig, options: EsbdBuildOptions)
   const htmlEntries = entries.filter(([, entryPath]) => entryPath.endsWith('.html'));
   const sourceEntries = entries.filter(([, entryPath]) => !entryPath.endsWith('.html'));
 
-  await Promise.all([
-    esbdBuildHtml(htmlEntries, config, options),
-    esbdBuildSource(sourceEntries, config, options),
+  const analyze = options.analyze ? analysisWriter(config, options.logger) : undefined;
+  const budgets = config.budgets ? budgetChecker(config, entries, options.logger) : undefined;
+  const manifest = config.manifest ? manifestWriter(config, options.logger) : undefined;
+
+  const resultHandler = (kind: string) => {
+    const handlers = [analyze?.(kind), manifest?.(kind)].filter(
+      (handler): handler is ResultHandler => !!handler,
+    );
+    return async (result: IncrementalBuildResult, buildOptions: BuildOptions) => {
+      for (const handler of handlers) await handler(result, buildOptions);
+    };
+  };
+
+  const contexts = await Promise.all([
+    esbdBuildHtml(htmlEntries, config, options, budgets, resultHandler('html')),
+    esbdBuildSource(sourceEntries, config, options, budgets, resultHandler('source')),
   ]);
+  return contexts.filter((context): context is IncrementalBuildContext => !!context);
 }
 
 async function esbdBuildHtml(
   htmlEntries: (readonly [string, string])[],
   config: ResolvedEsbdConfig,
-  { logger, mode, watch }: EsbdBuildOptions,
-) {
-  if (htmlEntries.length === 0) return;
+  { logger, mode, onSummary, watch }: EsbdBuildOptions,
+  budgets?: () => Plugin,
+  onResult?: ResultHandler,
+): Promise<IncrementalBuildContext | undefined> {
+  if (htmlEntries.length === 0) return undefined;
+
+  const entryNames = htmlEntries.map(([name]) => name);
 
-  const entryNames = htmlEntries.map(([name]) => name).join(', ');
-  const name = config.name ? `"${config.name}" (${entryNames})` : entryNames;
+  let [buildOptions, allWriteOptions] = await getHtmlBuildOptions(htmlEntries, mode, config);
+  let templatesWritten = false;
+  const level: CompressionLevel = watch ? 'fast' : 'max';
 
-  const [buildOptions, allWriteOptions] = await getHtmlBuildOptions(htmlEntries, mode, config);
   const context = await incrementalBuild({
     ...buildOptions,
     cleanOutdir: config.cleanOutdir,
+    compress: config.compress,
     copy: config.copy,
     logger,
-    plugins: [...config.plugins, timingPlugin(logger, name)],
+    // Budget violations are added to the result before the timing plugin summarizes it
+    plugins: [
+      ...config.plugins,
+      ...(budgets ? [budgets()] : []),
+      timingPlugin(logger, config.name, entryNames, onSummary),
+    ],
     write: false,
 
     onBuildStart: options => onBuildStart(logger, options.buildCount),
-    onBuildEnd: async result => {
+    onBuildEnd: async (result, options) => {
       if (!result.errors?.length) {
+        if (templatesWritten) {
+          // Re-parse the HTML files to pick up template changes and because the
+          // parse5 document is mutated when it is written
+          [buildOptions, allWriteOptions] = await getHtmlBuildOptions(htmlEntries, mode, config);
+        }
+        templatesWritten = true;
         await Promise.all([
           ...allWriteOptions.map(writeOptions =>
             writeTemplate(result, buildOptions, writeOptions, {
               copyFile: fs.promises.copyFile,
-              writeFile: fs.promises.writeFile,
+              writeFile: compressedWriteFile(config.compress, level),
             }),
           ),
           ...result.outputFiles.map(async file => {
             await fs.promises.mkdir(dirname(file.path), { recursive: true });
             await fs.promises.writeFile(file.path, file.contents);
+            await writeCompressedFiles(file.path, file.contents, config.compress, level);
           }),
         ]);
       }
       logOutput(result, logger);
+      await onResult?.(result, options);
     },
   });
 
   if (watch) {
+    watchTemplates(context, allWriteOptions, {
+      config,
+      entryPoints: buildOptions.entryPoints,
+      htmlEntries,
+      logger,
+      mode,
+    });
+    watchPublicEnv(context, { config, logger, mode });
     await context.watch();
-  } else {
-    await context.rebuild();
-    await context.dispose();
+    return context;
   }
+
+  await context.rebuild();
+  await context.dispose();
+  return undefined;
 }
 
 async function esbdBuildSource(
   sourceEntries: (readonly [string, string])[],
   config: ResolvedEsbdConfig,
-  { logger, mode, watch }: EsbdBuildOptions,
-) {
-  if (sourceEntries.length === 0) return;
+  { logger, mode, onSummary, watch }: EsbdBuildOptions,
+  budgets?: () => Plugin,
+  onResult?: ResultHandler,
+): Promise<IncrementalBuildContext | undefined> {
+  if (sourceEntries.length === 0) return undefined;
 
-  const entryNames = sourceEntries.map(([name]) => name).join(', ');
-  const name = config.name ? `"${config.name}" (${entryNames})` : entryNames;
+  const entryNames = sourceEntries.map(([name]) => name);
+  const level: CompressionLevel = watch ? 'fast' : 'max';
 
   const context = await incrementalBuild({
     ...getBuildOptions(sourceEntries, mode, config),
     cleanOutdir: config.cleanOutdir,
+    compress: config.compress,
     copy: config.copy,
     logger,
-    plugins: [...config.plugins, timingPlugin(logger, name)],
+    // Budget violations are added to the result before the timing plugin summarizes it
+    plugins: [
+      ...config.plugins,
+      ...(budgets ? [budgets()] : []),
+      timingPlugin(logger, config.name, entryNames, onSummary),
+    ],
     write: false,
 
     onBuildStart: options => onBuildStart(logger, options.buildCount),
-    onBuildEnd: async result => {
+    onBuildEnd: async (result, options) => {
       await Promise.all(
         result.outputFiles.map(async file => {
           await fs.promises.mkdir(dirname(file.path), { recursive: true });
           await fs.promises.writeFile(file.path, file.contents);
+          await writeCompressedFiles(file.path, file.contents, config.compress, level);
         }),
       );
       logOutput(result, logger);
+      await onResult?.(result, options);
     },
   });
 
   if (watch) {
+    watchPublicEnv(context, { config, logger, mode });
     await context.watch();
-  } else {
-    await context.rebuild();
-    await context.dispose();
+    return context;
   }
+
+  await context.rebuild();
+  await context.dispose();
+  return undefined;
+}
+
+type ResultHandler = (result: IncrementalBuildResult, options: BuildOptions) => Promise<void>;
+
+/**
+ * Collects metafiles from the HTML and source builds of a configuration and
+ * writes a combined analysis report whenever either of them completes.
+ */
+function analysisWriter(config: ResolvedEsbdConfig, logger: Logger) {
+  const metafiles = new Map<string, Metafile>();
+  let pending = Promise.resolve();
+
+  return (kind: string): ResultHandler =>
+    result => {
+      if (result.errors.length) return pending;
+      metafiles.set(kind, result.metafile);
+
+      pending = pending
+        .then(() =>
+          writeAnalysis(mergeMetafiles(Array.from(metafiles.values())), {
+            absOutDir: resolve(config.absWorkingDir, config.outdir),
+            basedir: config.absWorkingDir,
+            logger,
+            name: config.name,
+          }),
+        )
+        .catch(e => logger.error(`Unable to write analysis report: ${e}`));
+      return pending;
+    };
 }
 
 function logOutput(result: IncrementalBuildResult, logger: Logger) {
   for (const file of result.outputFiles) {
+    logger.event({ type: 'file-written', path: file.path, size: file.contents.byteLength });
+    if (logger.logFormat === 'json') continue;
+
     logger.info(
       pc.gray(
         `Wrote ${relative(process.cwd(), file.path)} (${pc.bold(
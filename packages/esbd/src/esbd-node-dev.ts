@@ -1,39 +1,190 @@
-import type { TypecheckRunner as TypecheckRunnerCls } from '@jgoz/esbuild-plugin-typecheck';
 import type { ChildProcess } from 'child_process';
 import type { ExecaChildPromise } from 'execa';
 import { node as execaNode } from 'execa';
 import fs from 'fs';
-import Graceful from 'node-graceful';
 import path from 'path';
 import pc from 'picocolors';
+import prettyTime from 'pretty-time';
+import readline from 'readline';
+import type { Readable } from 'stream';
 
 import type { BuildMode, ResolvedEsbdConfig, TsBuildMode } from './config';
-import { getBuildOptions } from './get-build-options';
+import { loadEnv, watchEnvFiles } from './env';
+import { esbdBuild } from './esbd-build';
+import { getNodeDevBuildOptions } from './get-build-options';
+import type { IncrementalBuildContext, IncrementalBuildResult } from './incremental-build';
 import { incrementalBuild } from './incremental-build';
+import type { InspectOptions } from './inspector';
+import { formatInspectFlag, getDevToolsUrl, resolveInspectPort } from './inspector';
 import type { Logger } from './log';
+import { PREFIX_COLORS, toMilliseconds } from './log';
+import { buildShortcuts, enableShortcuts, isInteractive } from './shortcuts';
 import { splitArgsString } from './split-args-string';
 import { timingPlugin } from './timing-plugin';
+import { startTypecheck } from './typecheck';
 
 interface EsbdNodeDevConfig {
   args: string[];
+  inspect?: InspectOptions;
   logger: Logger;
   mode: BuildMode;
   respawn?: boolean;
   check?: boolean;
+  /** Read key presses from the terminal. Programs don't receive stdin while this is enabled. */
+  shortcuts?: boolean;
   tsBuildMode?: TsBuildMode;
+
+  /**
+   * Additional configurations (e.g., browser bundles) that will be built in
+   * watch mode alongside the program.
+   */
+  watchConfigs?: ResolvedEsbdConfig[];
 }
 
-const MAX_RETRIES = 3;
-const KEEPALIVE_RESET_TIMEOUT_MS = 5000;
+export interface EsbdNodeDevResult {
+  contexts: IncrementalBuildContext[];
+
+  /**
+   * Resolves with the exit code once node-dev has shut down, either because
+   * the program exited or because `dispose` was called.
+   */
+  done: Promise<number>;
+
+  dispose(): Promise<void>;
+
+  /**
+   * Rebuilds and restarts every program, even if its output is unchanged.
+   */
+  restart(): Promise<void>;
+}
+
+type ProgramProcess = ChildProcess & ExecaChildPromise<string>;
+
+/**
+ * A long-running process that is started from one of the entry points.
+ */
+interface Program {
+  args: string[];
+  entryName: string;
+  entryPath: string;
+  inspect?: InspectOptions;
+  /** Name of the process when there are several programs. */
+  name?: string;
+  /** Prefix for log messages and output when there are several programs. */
+  prefix?: string;
+
+  child?: ProgramProcess;
+  running: boolean;
+  // Times at which the program exited within the respawn window
+  exitTimes: number[];
+  respawnTimeout?: NodeJS.Timeout;
+
+  // New instance of the program that has not reported that it's ready yet (with "waitForReady")
+  pendingChild?: ProgramProcess;
+  restartStartTime?: [number, number];
+  // Hashes of the outputs that were loaded by the last started instance
+  startedOutputHashes?: Map<string, string>;
+}
+
+const DEFAULT_MAX_RESTARTS = 3;
+const DEFAULT_RESPAWN_WINDOW_MS = 5000;
+const DEFAULT_MAX_BACKOFF_MS = 30000;
+const DEFAULT_KILL_TIMEOUT_MS = 5000;
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+function pipeWithPrefix(
+  input: Readable | null,
+  output: NodeJS.WriteStream,
+  prefix: string | undefined,
+) {
+  if (!input) return;
+  if (!prefix) {
+    input.pipe(output, { end: false });
+    return;
+  }
+  readline
+    .createInterface({ input, crlfDelay: Infinity })
+    .on('line', line => output.write(`${prefix} ${line}\n`));
+}
+
+/**
+ * Returns the hashes of the output files that are loaded when the entry point
+ * runs, i.e., the entry point, the chunks it imports and their source maps.
+ */
+function getEntryOutputHashes(
+  result: IncrementalBuildResult,
+  basedir: string,
+  entryOutputPath: string,
+): Map<string, string> {
+  const { outputs } = result.metafile;
+  const hashes = new Map(result.outputFiles.map(file => [file.path, file.hash]));
+  const entryHashes = new Map<string, string>();
+
+  const queue = [entryOutputPath];
+  const visited = new Set(queue);
+  while (queue.length) {
+    const current = queue.shift()!;
+    for (const outputPath of [current, `${current}.map`]) {
+      const absPath = path.resolve(basedir, outputPath);
+      const hash = hashes.get(absPath);
+      if (hash !== undefined) entryHashes.set(absPath, hash);
+    }
+    for (const { path: importPath, external } of outputs[current]?.imports ?? []) {
+      if (external || !outputs[importPath] || visited.has(importPath)) continue;
+      visited.add(importPath);
+      queue.push(importPath);
+    }
+  }
+  return entryHashes;
+}
+
+function hasSameHashes(a: Map<string, string>, b: Map<string, string> | undefined): boolean {
+  if (!b || a.size !== b.size) return false;
+  for (const [file, hash] of a) {
+    if (b.get(file) !== hash) return false;
+  }
+  return true;
+}
 
 export default async function esbdNodeDev(
   config: ResolvedEsbdConfig,
-  { args, logger, mode, respawn, check, tsBuildMode }: EsbdNodeDevConfig,
-) {
-  let child: (ChildProcess & ExecaChildPromise<string>) | undefined;
-  let keepAliveCount = 0;
-  let keepAliveResetTimeout: NodeJS.Timeout;
-  let running = false;
+  {
+    args,
+    inspect,
+    logger,
+    mode,
+    respawn,
+    check,
+    shortcuts,
+    tsBuildMode,
+    watchConfigs = [],
+  }: EsbdNodeDevConfig,
+): Promise<EsbdNodeDevResult> {
+  const {
+    killTimeout = DEFAULT_KILL_TIMEOUT_MS,
+    main,
+    processes,
+    restartSignal = 'SIGTERM',
+    waitForChange = false,
+  } = config.nodeDev ?? {};
+
+  // Overlapping instances can't both listen on the same inspector port
+  const waitForReady = !!config.nodeDev?.waitForReady && !inspect;
+  if (config.nodeDev?.waitForReady && inspect) {
+    logger.warn(
+      '"waitForReady" is ignored while the inspector is enabled, so the program is stopped before it restarts',
+    );
+  }
+
+  const respawnPolicy =
+    respawn || config.nodeDev?.respawn
+      ? typeof config.nodeDev?.respawn === 'object'
+        ? config.nodeDev.respawn
+        : {}
+      : undefined;
 
   const entries = Array.isArray(config.entryPoints)
     ? config.entryPoints.map(entry =>
@@ -41,118 +192,305 @@ export default async function esbdNodeDev(
       )
     : Object.entries(config.entryPoints);
 
-  const buildOptions = getBuildOptions(entries, mode, config);
+  const buildOptions = getNodeDevBuildOptions(entries, mode, config);
+  const interactive = !!shortcuts && isInteractive();
   const basedir = buildOptions.absWorkingDir;
-  const defaultTarget = `node${process.versions.node}`;
 
-  async function handleExit(exitCode = 0) {
-    running = false;
-    clearTimeout(keepAliveResetTimeout);
+  const programDefinitions: [name: string | undefined, entryName: string, args: string[]][] =
+    processes
+      ? Object.entries(processes).map(([name, { entry = name, args: processArgs = [] }]) => [
+          name,
+          entry,
+          [...processArgs, ...args],
+        ])
+      : [[undefined, main ?? entries[0]?.[0] ?? '', args]];
+
+  const programs: Program[] = await Promise.all(
+    programDefinitions.map(async ([name, entryName, programArgs], i) => {
+      const entryPath = entries.find(([entry]) => entry === entryName)?.[1];
+      if (entryPath === undefined) {
+        throw new Error(
+          `Unable to find entry point "${entryName}"${name ? ` for process "${name}"` : ''}`,
+        );
+      }
+
+      return {
+        args: programArgs,
+        entryName,
+        entryPath,
+        // Use the same inspector port for every restart so that debuggers can reconnect.
+        // This is possible because instances never overlap while the inspector is enabled.
+        inspect: inspect && {
+          ...inspect,
+          port: await resolveInspectPort(inspect.host, inspect.port && inspect.port + i),
+        },
+        exitTimes: [],
+        name,
+        prefix: name && PREFIX_COLORS[i % PREFIX_COLORS.length](`[${name}]`),
+        running: false,
+      };
+    }),
+  );
+
+  function label(program: Program, message: string) {
+    return program.prefix ? `${program.prefix} ${message}` : message;
+  }
+
+  async function stopOrWaitForChange(program: Program, exitCode: number) {
+    if (waitForChange && exitCode !== 0) {
+      program.exitTimes = [];
+      logger.info(label(program, 'Waiting for file changes before restarting'));
+      return;
+    }
+    await shutdown(exitCode);
+  }
+
+  async function handleExit(program: Program, exitCode = 0) {
+    program.running = false;
 
-    if (!respawn) {
-      await shutdown(exitCode);
+    if (
+      !respawnPolicy ||
+      (respawnPolicy.exitCodes && !respawnPolicy.exitCodes.includes(exitCode))
+    ) {
+      await stopOrWaitForChange(program, exitCode);
       return;
     }
 
-    if (++keepAliveCount === MAX_RETRIES) {
-      logger.error('Maximum keep-alive count reached, dying');
-      await shutdown(1);
+    const {
+      backoff = 0,
+      maxBackoff = DEFAULT_MAX_BACKOFF_MS,
+      maxRestarts = DEFAULT_MAX_RESTARTS,
+      window = DEFAULT_RESPAWN_WINDOW_MS,
+    } = respawnPolicy;
+
+    const now = Date.now();
+    program.exitTimes = [...program.exitTimes.filter(time => now - time < window), now];
+
+    if (program.exitTimes.length >= maxRestarts) {
+      logger.error(
+        label(
+          program,
+          `Maximum keep-alive count reached, ${waitForChange ? 'waiting for file changes' : 'dying'}`,
+        ),
+      );
+      await stopOrWaitForChange(program, exitCode || 1);
       return;
     }
 
-    logger.info('Keep-alive requested, rebuilding and restarting');
-    await context.rebuild();
+    const delay = Math.min(backoff * 2 ** (program.exitTimes.length - 1), maxBackoff);
+    logger.info(
+      label(
+        program,
+        delay
+          ? `Keep-alive requested, restarting in ${delay}ms`
+          : 'Keep-alive requested, rebuilding and restarting',
+      ),
+    );
 
-    keepAliveResetTimeout = setTimeout(() => {
-      keepAliveCount = 0;
-    }, KEEPALIVE_RESET_TIMEOUT_MS);
+    await new Promise(resolve => {
+      program.respawnTimeout = setTimeout(resolve, delay);
+    });
+    // The program may have been started by a rebuild in the meantime
+    if (!program.running) await context.rebuild();
   }
 
-  function runProgram(scriptPath: string, argv: string[]) {
-    const NODE_OPTIONS = splitArgsString(process.env.NODE_OPTIONS ?? '');
+  function logRestarted(program: Program) {
+    if (!program.restartStartTime) return;
+    const duration = process.hrtime(program.restartStartTime);
+    logger.event({
+      type: 'node-dev-restart',
+      process: program.name,
+      duration: toMilliseconds(duration),
+    });
+    if (logger.logFormat === 'text') {
+      logger.info(pc.gray(label(program, `Restarted in ${prettyTime(duration, 'ms')}`)));
+    }
+    program.restartStartTime = undefined;
+  }
+
+  /**
+   * Stops a process with the configured signal, escalating to SIGKILL if
+   * it does not exit within the kill timeout.
+   */
+  function stopProcess(program: Program, proc: ProgramProcess): Promise<void> {
+    proc.removeAllListeners();
+    if (proc.pid === undefined || proc.exitCode !== null || proc.signalCode !== null) {
+      return Promise.resolve();
+    }
 
-    child = execaNode(scriptPath, argv, {
-      nodeOptions: ['--enable-source-maps', ...NODE_OPTIONS],
-      stdio: 'inherit',
+    return new Promise(resolve => {
+      const forceKillTimeout = setTimeout(() => {
+        logger.warn(
+          label(
+            program,
+            `Program did not exit within ${killTimeout}ms of ${restartSignal}, killing it`,
+          ),
+        );
+        proc.kill('SIGKILL');
+      }, killTimeout);
+
+      proc.once('exit', () => {
+        clearTimeout(forceKillTimeout);
+        resolve();
+      });
+      proc.kill(restartSignal);
     });
+  }
+
+  async function stopRunningProgram(program: Program) {
+    if (!program.running || !program.child || waitForReady) return;
+    await stopProcess(program, program.child);
+    program.running = false;
+  }
+
+  function runProgram(program: Program, scriptPath: string) {
+    const NODE_OPTIONS = splitArgsString(process.env.NODE_OPTIONS ?? '');
 
-    child.once('exit', exitCode => {
-      child?.removeAllListeners();
-      if (exitCode) logger.error(`Program exited with code ${exitCode}`);
-      void handleExit(exitCode ?? 0);
+    const { inspect: inspectOptions, prefix } = program;
+    const inspectFlags = inspectOptions ? [formatInspectFlag(inspectOptions)] : [];
+    // Keep stdout for JSON events
+    const pipeOutput = !!prefix || logger.logFormat === 'json';
+
+    const spawned: ProgramProcess = execaNode(scriptPath, program.args, {
+      buffer: false,
+      env: loadEnv(config.absWorkingDir, mode),
+      nodeOptions: ['--enable-source-maps', ...inspectFlags, ...NODE_OPTIONS],
+      // Key presses are handled by esbd when shortcuts are enabled
+      stdio: [
+        interactive ? 'ignore' : 'inherit',
+        pipeOutput ? 'pipe' : 'inherit',
+        pipeOutput ? 'pipe' : 'inherit',
+      ],
     });
 
-    child.once('error', err => {
-      child?.removeAllListeners();
-      logger.error('Uncaught program error', err.toString(), err.stack);
-      void handleExit(1);
+    if (pipeOutput) {
+      const stdout = logger.logFormat === 'json' ? process.stderr : process.stdout;
+      pipeWithPrefix(spawned.stdout, stdout, prefix);
+      pipeWithPrefix(spawned.stderr, process.stderr, prefix);
+    }
+
+    // The previous instance keeps running until the new one is ready
+    const previous = waitForReady && program.running ? program.child : undefined;
+    if (previous) {
+      program.pendingChild = spawned;
+      logger.info(pc.gray(label(program, 'Waiting for the program to be ready')));
+    } else {
+      program.child = spawned;
+    }
+
+    spawned.once('exit', exitCode => {
+      spawned.removeAllListeners();
+      if (spawned === program.pendingChild) {
+        program.pendingChild = undefined;
+        logger.error(
+          label(
+            program,
+            `Program exited with code ${exitCode} before it was ready, keeping the previous instance running`,
+          ),
+        );
+        return;
+      }
+      if (exitCode) logger.error(label(program, `Program exited with code ${exitCode}`));
+      void handleExit(program, exitCode ?? 0);
     });
 
-    child.once('spawn', () => {
-      running = true;
+    spawned.once('error', err => {
+      spawned.removeAllListeners();
+      logger.error(label(program, 'Uncaught program error'), err.toString(), err.stack);
+      if (spawned === program.pendingChild) {
+        program.pendingChild = undefined;
+        return;
+      }
+      void handleExit(program, 1);
     });
-  }
 
-  if (check) {
-    const TypecheckRunner: typeof TypecheckRunnerCls =
-      require('@jgoz/esbuild-plugin-typecheck').TypecheckRunner;
+    spawned.on('message', message => {
+      if (message !== 'ready' || !previous || spawned !== program.pendingChild) return;
 
-    const runner = new TypecheckRunner({
-      absWorkingDir: buildOptions.absWorkingDir,
-      build: tsBuildMode ? true : undefined,
-      buildMode: tsBuildMode,
-      configFile: config.tsconfig,
-      logger,
-      watch: true,
+      program.pendingChild = undefined;
+      program.child = spawned;
+      stopProcess(program, previous).then(() => logRestarted(program), logger.error);
+    });
+
+    spawned.once('spawn', () => {
+      if (!previous) {
+        program.running = true;
+        logRestarted(program);
+      }
+      if (inspectOptions) {
+        getDevToolsUrl(inspectOptions, () => spawned.exitCode === null)
+          .then(url => {
+            if (url) logger.info(label(program, `Debugger available at ${pc.cyan(url)}`));
+          })
+          .catch(() => {});
+      }
     });
+  }
+
+  function getEntryOutputFile(program: Program, result: IncrementalBuildResult) {
+    const entryPoint = toPosix(path.relative(basedir, path.resolve(basedir, program.entryPath)));
+    const entryOutputPath = Object.keys(result.metafile.outputs).find(
+      out => result.metafile.outputs[out].entryPoint === entryPoint,
+    );
+    const absOutputPath = entryOutputPath && path.resolve(basedir, entryOutputPath);
+    const entryOutputFile =
+      absOutputPath && result.outputFiles.find(outputFile => outputFile.path === absOutputPath);
 
-    runner.logger.info('Type checking enabled');
-    runner.start();
+    if (!entryOutputPath || !entryOutputFile) {
+      throw new Error(`Unable to find entry point script for "${program.entryName}"`);
+    }
+    return {
+      outputHashes: getEntryOutputHashes(result, basedir, entryOutputPath),
+      scriptPath: entryOutputFile.path,
+    };
   }
 
+  const typecheckRunners = check
+    ? startTypecheck([config, ...watchConfigs], { logger, tsBuildMode, watch: true })
+    : [];
+
   const context = await incrementalBuild({
     ...buildOptions,
     cleanOutdir: config.cleanOutdir,
     copy: config.copy,
     logger,
-    minify: mode === 'production',
-    plugins: [...config.plugins, timingPlugin(logger, config.name && `"${config.name}"`)],
-    platform: 'node',
-    target: config.target ?? defaultTarget,
+    plugins: [...config.plugins, timingPlugin(logger, config.name)],
 
     onBuildStart: async options => {
       if (options.buildCount >= 1) {
         logger.info(pc.gray('Source files changed, rebuilding'));
       }
-      child?.removeAllListeners();
-      if (running) {
-        await new Promise<void>((resolve, reject) => {
-          if (!child) {
-            resolve();
-            return;
+      await Promise.all(
+        programs.map(async program => {
+          if (program.pendingChild) {
+            await stopProcess(program, program.pendingChild);
+            program.pendingChild = undefined;
+            // The running instance was started from an older build
+            program.startedOutputHashes = undefined;
           }
-          child.on('exit', resolve);
-          child.on('error', reject);
-          child.cancel();
-        });
-        running = false;
-      }
+          if (program.running) program.restartStartTime = process.hrtime();
+        }),
+      );
     },
     onBuildEnd: async result => {
       if (result.errors?.length) {
+        await Promise.all(programs.map(stopRunningProgram));
         logger.info(`Not starting program due to ${result.errors.length} error(s)`);
         return;
       }
 
-      const entryOutputPath = Object.keys(result.metafile.outputs).find(
-        out => result.metafile.outputs[out].entryPoint,
-      );
-      const absOutputPath = entryOutputPath && path.resolve(basedir, entryOutputPath);
-      const entryOutputFile =
-        absOutputPath && result.outputFiles.find(outputFile => outputFile.path === absOutputPath);
-
-      if (!entryOutputFile) throw new Error('Unable to find entry point script');
+      const starts = programs.flatMap(program => {
+        const { outputHashes, scriptPath } = getEntryOutputFile(program, result);
+        if (program.running && hasSameHashes(outputHashes, program.startedOutputHashes)) {
+          program.restartStartTime = undefined;
+          logger.info(pc.gray(label(program, 'No output changes, not restarting')));
+          return [];
+        }
+        return [{ outputHashes, program, scriptPath }];
+      });
+      if (!starts.length) return;
 
+      await Promise.all(starts.map(({ program }) => stopRunningProgram(program)));
       await Promise.all(
         result.outputFiles.map(async file => {
           await fs.promises.mkdir(path.dirname(file.path), { recursive: true });
@@ -160,19 +498,73 @@ export default async function esbdNodeDev(
         }),
       );
 
-      logger.info(`Starting ${pc.cyan(entryOutputFile.path)} ${pc.gray(args.join(' '))}`);
-      runProgram(entryOutputFile.path, args);
+      for (const { outputHashes, program, scriptPath } of starts) {
+        logger.info(
+          label(program, `Starting ${pc.cyan(scriptPath)} ${pc.gray(program.args.join(' '))}`),
+        );
+        program.startedOutputHashes = outputHashes;
+        runProgram(program, scriptPath);
+      }
     },
   });
 
-  async function shutdown(exitCode = 0) {
-    logger.info('Shutting down…');
-    if (child) child.cancel();
-    if (context) await context.dispose();
-    process.exitCode = exitCode;
+  /**
+   * Rebuilds and restarts every program, even if its output is unchanged.
+   */
+  async function restartPrograms() {
+    for (const program of programs) program.startedOutputHashes = undefined;
+    // Build errors are reported by the build itself
+    await context.rebuild().catch(() => {});
   }
 
-  Graceful.on('exit', () => shutdown());
+  watchEnvFiles(config.absWorkingDir, mode, context.signal, logger, restartPrograms);
+
+  const watchContexts = (
+    await Promise.all(
+      watchConfigs.map(watchConfig => esbdBuild(watchConfig, { logger, mode, watch: true })),
+    )
+  ).flat();
+
+  let disableShortcuts: (() => void) | undefined;
+  let resolveDone: (exitCode: number) => void;
+  const done = new Promise<number>(resolve => {
+    resolveDone = resolve;
+  });
+  let shutdownPromise: Promise<void> | undefined;
+
+  function shutdown(exitCode = 0): Promise<void> {
+    shutdownPromise ??= stopAll().then(() => resolveDone(exitCode));
+    return shutdownPromise;
+  }
+
+  async function stopAll() {
+    logger.info('Shutting down…');
+    disableShortcuts?.();
+    for (const program of programs) clearTimeout(program.respawnTimeout);
+    await Promise.all(
+      programs.flatMap(program =>
+        [program.child, program.pendingChild].map(proc => proc && stopProcess(program, proc)),
+      ),
+    );
+    await Promise.all([context, ...watchContexts].map(ctx => ctx.dispose()));
+  }
 
   await context.watch();
+
+  if (interactive) {
+    disableShortcuts = enableShortcuts(
+      [
+        ...buildShortcuts([context, ...watchContexts], typecheckRunners),
+        { key: 'R', description: 'restart', action: restartPrograms },
+      ],
+      logger,
+    );
+  }
+
+  return {
+    contexts: [context, ...watchContexts],
+    done,
+    dispose: () => shutdown(),
+    restart: restartPrograms,
+  };
 }
@@ -1,42 +1,67 @@
-import type {
-  clientMessageBuilder as clientMessageBuilderFn,
-  LivereloadRequestHandler,
-  notify as notifyFn,
-} from '@jgoz/esbuild-plugin-livereload';
-import type { TypecheckRunner as TypecheckRunnerCls } from '@jgoz/esbuild-plugin-typecheck';
+import type * as livereloadModule from '@jgoz/esbuild-plugin-livereload';
 import dns from 'node:dns';
 import fs from 'node:fs';
-import type { ServerResponse } from 'node:http';
+import type { IncomingMessage, RequestListener, Server, ServerResponse } from 'node:http';
 import { createServer } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
 import path from 'node:path';
 import { URL } from 'node:url';
 import { promisify } from 'node:util';
-import Graceful from 'node-graceful';
 import pc from 'picocolors';
 import serveStatic from 'serve-static';
 
-import type { BuildMode, ResolvedEsbdConfig, TsBuildMode } from './config';
+import {
+  COMPRESSED_EXTENSIONS,
+  compressedWriteFile,
+  getCompressionFormats,
+  writeCompressedFiles,
+} from './compress';
+import type {
+  BuildMode,
+  CompressionFormat,
+  ProxyOptions,
+  ResolvedEsbdConfig,
+  TsBuildMode,
+} from './config';
 import { getHtmlBuildOptions } from './get-build-options';
 import { createElement } from './html-entry-point/html-utils';
 import type { TextNode } from './html-entry-point/parse5';
 import type { WriteTemplateOptions } from './html-entry-point/write-template';
 import { writeTemplate } from './html-entry-point/write-template';
+import type { HttpsOptions } from './https';
+import { getHttpsOptions } from './https';
+import type { IncrementalBuildContext } from './incremental-build';
 import { incrementalBuild } from './incremental-build';
 import type { Logger } from './log';
+import { createProxyHandler } from './proxy';
+import { buildShortcuts, enableShortcuts, openUrl } from './shortcuts';
 import { timingPlugin } from './timing-plugin';
+import { startTypecheck } from './typecheck';
+import { watchPublicEnv } from './watch-env';
+import { watchTemplates } from './watch-templates';
 
 interface EsbdServeConfig {
   check?: boolean;
   host?: string;
+  https?: boolean;
+  httpsCert?: string;
+  httpsKey?: string;
   livereload?: boolean;
   logger: Logger;
   mode: BuildMode;
   port?: number;
   rewrite: boolean;
   servedir?: string;
+  shortcuts?: boolean;
   tsBuildMode?: TsBuildMode;
 }
 
+export interface EsbdServeResult {
+  contexts: IncrementalBuildContext[];
+  url: string;
+  dispose(): Promise<void>;
+}
+
 function appendLivereloadScripts(writeOptions: WriteTemplateOptions, baseUrl: string): void {
   const { head } = writeOptions.template;
 
@@ -58,88 +83,133 @@ function appendLivereloadScripts(writeOptions: WriteTemplateOptions, baseUrl: st
   );
 }
 
-export default async function esbdServe(
+type RequestHandler = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+const CONTENT_ENCODINGS: [CompressionFormat, string][] = [
+  ['brotli', 'br'],
+  ['gzip', 'gzip'],
+];
+
+function getAcceptedEncodings(header: string | string[] | undefined): Set<string> {
+  const encodings = new Set<string>();
+  const value = Array.isArray(header) ? header.join(',') : header ?? '';
+  for (const part of value.split(',')) {
+    const [name, ...params] = part.split(';').map(p => p.trim());
+    const quality = params.find(p => p.startsWith('q='));
+    if (!name || (quality && parseFloat(quality.slice(2)) === 0)) continue;
+    encodings.add(name.toLowerCase());
+  }
+  return encodings;
+}
+
+/**
+ * Serves precompressed output files to clients that accept their encoding
+ * and falls back to the uncompressed files otherwise.
+ */
+function precompressedHandler(
+  absOutDir: string,
+  formats: CompressionFormat[],
+  handler: RequestHandler,
+): RequestHandler {
+  return (req, res, next) => {
+    const accepted = getAcceptedEncodings(req.headers['accept-encoding']);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    let filePath: string;
+    try {
+      filePath = path.join(absOutDir, decodeURIComponent(url.pathname));
+    } catch {
+      handler(req, res, next);
+      return;
+    }
+
+    const candidates = CONTENT_ENCODINGS.filter(
+      ([format, encoding]) => formats.includes(format) && accepted.has(encoding),
+    );
+    res.setHeader('vary', 'accept-encoding');
+
+    function tryNext(index: number) {
+      const candidate = candidates[index];
+      if (!candidate || !filePath.startsWith(absOutDir)) {
+        handler(req, res, next);
+        return;
+      }
+
+      const [format, encoding] = candidate;
+      fs.stat(filePath + COMPRESSED_EXTENSIONS[format], (err, stats) => {
+        if (err || !stats.isFile()) {
+          tryNext(index + 1);
+          return;
+        }
+
+        // Content type is based on the uncompressed file rather than the ".br" or ".gz" extension
+        const contentType = serveStatic.mime.lookup(filePath);
+        if (contentType) res.setHeader('content-type', contentType);
+        res.setHeader('content-encoding', encoding);
+
+        url.pathname += COMPRESSED_EXTENSIONS[format];
+        req.url = url.toString();
+        handler(req, res, next);
+      });
+    }
+
+    tryNext(0);
+  };
+}
+
+interface ServeTarget {
+  absOutDir: string;
+  allWriteOptions: WriteTemplateOptions[];
+  config: ResolvedEsbdConfig;
+  context: IncrementalBuildContext;
+  outputHandler: RequestHandler;
+  publicPath: string;
+}
+
+interface ServeTargetOptions {
+  clients: Set<ServerResponse>;
+  livereloadBaseUrl: string;
+  logger: Logger;
+  mode: BuildMode;
+  setHeaders: serveStatic.ServeStaticOptions['setHeaders'];
+}
+
+async function createServeTarget(
   config: ResolvedEsbdConfig,
-  {
-    mode,
-    host = '127.0.0.1',
-    port = 8000,
-    livereload,
-    logger,
-    servedir,
-    rewrite,
-    check,
-    tsBuildMode,
-  }: EsbdServeConfig,
-) {
+  { clients, livereloadBaseUrl, logger, mode, setHeaders }: ServeTargetOptions,
+  livereload: typeof livereloadModule | undefined,
+): Promise<ServeTarget | undefined> {
   const entries = Array.isArray(config.entryPoints)
     ? config.entryPoints.map(entry =>
         typeof entry === 'object' ? ([entry.out, entry.in] as const) : ([entry, entry] as const),
       )
     : Object.entries(config.entryPoints);
 
-  let [buildOptions, allWriteOptions] = await getHtmlBuildOptions(entries, mode, config);
+  const [buildOptions, initialWriteOptions] = await getHtmlBuildOptions(entries, mode, config);
 
-  if (allWriteOptions.length === 0) {
-    logger.error('At least one HTML entry point is required for "serve" but none were found.');
+  if (initialWriteOptions.length === 0) {
+    const name = config.name ? ` (in "${config.name}")` : '';
+    logger.error(
+      `At least one HTML entry point is required for "serve" but none were found${name}.`,
+    );
     logger.debug(`Found ${entries.length} entry points:`);
     logger.debug(JSON.stringify(config.entryPoints, null, 2));
-    process.exitCode = 1;
-    return;
+    return undefined;
   }
 
-  const publicPath = buildOptions.publicPath ?? '';
   const basedir = buildOptions.absWorkingDir;
   const absOutDir = path.resolve(basedir, buildOptions.outdir);
+  const messageBuilder = livereload?.clientMessageBuilder(buildOptions);
+  const errorSource = config.name ? `esbuild:${config.name}` : 'esbuild';
 
-  const clients = new Set<ServerResponse>();
-
-  const livereloadBaseUrl = `//${host}:${port}/`;
-  let lrHandler: LivereloadRequestHandler | undefined;
-  let notify: typeof notifyFn | undefined;
-  let messageBuilder: ReturnType<typeof clientMessageBuilderFn> | undefined;
-  if (livereload) {
-    const {
-      clientMessageBuilder,
-      createLivereloadRequestHandler,
-      notify: notifyLR,
-    } = await import('@jgoz/esbuild-plugin-livereload');
-
-    lrHandler = await createLivereloadRequestHandler({
-      basedir,
-      host,
-      port,
-      onSSE: res => clients.add(res),
-    });
-    notify = notifyLR;
-    messageBuilder = clientMessageBuilder(buildOptions);
-  }
-
-  if (check) {
-    const TypecheckRunner: typeof TypecheckRunnerCls =
-      require('@jgoz/esbuild-plugin-typecheck').TypecheckRunner;
-
-    const runner = new TypecheckRunner({
-      absWorkingDir: buildOptions.absWorkingDir,
-      build: tsBuildMode ? true : undefined,
-      buildMode: tsBuildMode,
-      configFile: config.tsconfig,
-      logger,
-      watch: true,
-    });
-
-    runner.logger.info('Type checking enabled');
-    runner.start();
-  }
-
-  // TODO: watch HTML entry points
   const context = await incrementalBuild({
     ...buildOptions,
     banner: config.banner,
     cleanOutdir: config.cleanOutdir,
+    compress: config.compress,
     copy: config.copy,
     logger,
-    plugins: [...config.plugins, timingPlugin(logger, config.name && `"${config.name}"`)],
+    plugins: [...config.plugins, timingPlugin(logger, config.name)],
     onBuildStart: ({ buildCount }) => {
       if (buildCount >= 1) {
         logger.info(pc.gray(`Source files changed, rebuilding`));
@@ -150,146 +220,307 @@ export default async function esbdServe(
         // Re-parse the HTML files to pick up any changes to the template and because
         // the parse5 document is mutable, so successive builds may continue adding
         // new elements to the document incorrectly.
-        [, allWriteOptions] = await getHtmlBuildOptions(entries, mode, config);
+        [, target.allWriteOptions] = await getHtmlBuildOptions(entries, mode, config);
 
         await Promise.all([
-          ...allWriteOptions.map(writeOptions => {
+          ...target.allWriteOptions.map(writeOptions => {
             if (livereload) appendLivereloadScripts(writeOptions, livereloadBaseUrl);
             return writeTemplate(result, options, writeOptions, {
               copyFile: fs.promises.copyFile,
-              writeFile: fs.promises.writeFile,
+              writeFile: compressedWriteFile(config.compress, 'fast'),
             });
           }),
           ...result.outputFiles.map(async file => {
             await fs.promises.mkdir(path.dirname(file.path), { recursive: true });
             await fs.promises.writeFile(file.path, file.contents);
+            await writeCompressedFiles(file.path, file.contents, config.compress, 'fast');
           }),
         ]);
       }
 
-      if (livereload && notify && messageBuilder) {
+      if (livereload && messageBuilder) {
         const message = await messageBuilder(result);
-        notify('esbuild', message, clients);
+        livereload.notify(errorSource, message, clients);
       }
     },
   });
 
+  watchTemplates(context, initialWriteOptions, {
+    config,
+    entryPoints: buildOptions.entryPoints,
+    htmlEntries: entries,
+    logger,
+    mode,
+  });
+  watchPublicEnv(context, { config, logger, mode });
+
+  const outputHandler = serveStatic(absOutDir, { fallthrough: false, setHeaders });
+  const compressionFormats = getCompressionFormats(config.compress);
+
+  const target: ServeTarget = {
+    absOutDir,
+    allWriteOptions: initialWriteOptions,
+    config,
+    context,
+    outputHandler: compressionFormats.length
+      ? precompressedHandler(absOutDir, compressionFormats, outputHandler)
+      : outputHandler,
+    publicPath: buildOptions.publicPath ?? '',
+  };
+
+  return target;
+}
+
+export default async function esbdServe(
+  configs: ResolvedEsbdConfig[],
+  {
+    mode,
+    host = '127.0.0.1',
+    port = 8000,
+    https,
+    httpsCert,
+    httpsKey,
+    livereload,
+    logger,
+    servedir,
+    rewrite,
+    check,
+    shortcuts,
+    tsBuildMode,
+  }: EsbdServeConfig,
+): Promise<EsbdServeResult | undefined> {
+  const clients = new Set<ServerResponse>();
+
+  let httpsOptions: HttpsOptions | undefined;
+  if (https || httpsCert || httpsKey) {
+    httpsOptions = await getHttpsOptions({
+      basedir: configs[0].absWorkingDir,
+      certFile: httpsCert,
+      host,
+      keyFile: httpsKey,
+      logger,
+    });
+  }
+  const protocol = httpsOptions ? 'https' : 'http';
+
+  const livereloadBaseUrl = `//${host}:${port}/`;
+  let lrHandler: livereloadModule.LivereloadRequestHandler | undefined;
+  let lrModule: typeof livereloadModule | undefined;
+  if (livereload) {
+    lrModule = await import('@jgoz/esbuild-plugin-livereload');
+    lrHandler = await lrModule.createLivereloadRequestHandler({
+      basedir: configs[0].absWorkingDir,
+      host,
+      port,
+      https: httpsOptions,
+      onSSE: res => clients.add(res),
+    });
+  }
+
   const setHeaders: serveStatic.ServeStaticOptions['setHeaders'] = (res, path) => {
+    res.setHeader('access-control-allow-origin', '*');
     if (res.hasHeader('content-type')) return;
 
     const contentType = serveStatic.mime.lookup(path);
     if (contentType) res.setHeader('content-type', contentType);
-
-    res.setHeader('access-control-allow-origin', '*');
   };
 
-  const outputHandler = serveStatic(absOutDir, { fallthrough: false, setHeaders });
+  const maybeTargets = await Promise.all(
+    configs.map(config =>
+      createServeTarget(config, { clients, livereloadBaseUrl, logger, mode, setHeaders }, lrModule),
+    ),
+  );
+
+  const targets = maybeTargets.filter((target): target is ServeTarget => !!target);
+  if (targets.length < configs.length) {
+    await Promise.all(targets.map(target => target.context.dispose()));
+    return undefined;
+  }
+
+  const typecheckRunners = check
+    ? startTypecheck(configs, { logger, tsBuildMode, watch: true })
+    : [];
+
+  // Conflicting contexts are reported by `validateServeConfigs`, so any duplicates are identical
+  const proxy: Record<string, string | ProxyOptions> = {};
+  for (const config of configs) {
+    for (const [context, options] of Object.entries(config.proxy ?? {})) {
+      proxy[context] ??= options;
+    }
+  }
+  const proxyHandler = Object.keys(proxy).length ? createProxyHandler(proxy, logger) : undefined;
+
   const servedirHandler = servedir
     ? serveStatic(servedir, { fallthrough: true, setHeaders })
     : undefined;
 
-  const staticHandler: ReturnType<typeof serveStatic> = servedirHandler
-    ? (req, res, next) => servedirHandler(req, res, () => outputHandler(req, res, next))
-    : (req, res, next) => outputHandler(req, res, next);
+  const rootUrl = `${protocol}://${host}:${port}`;
+
+  function normalizeUrl(url: URL, publicPath: string): URL {
+    if (!publicPath) return url;
+    // Strip "publicPath" from the beginning of the URL because
+    // serve-static doesn't support path remapping
+    return new URL(url.pathname.replace(new RegExp(`^${publicPath}`), ''), rootUrl);
+  }
+
+  // Find the best index file based on the longest matching patch segment
+  // between the request URL and the template output file (SPA mode)
+  function findTemplate(url: URL): [ServeTarget, string] {
+    const candidates = targets.flatMap(target =>
+      target.allWriteOptions.map(({ template }) => [target, template.outputPath] as const),
+    );
+    if (candidates.length === 1) return [candidates[0][0], candidates[0][1]];
+
+    // Templates belonging to a configuration whose "publicPath" matches the
+    // request URL take precedence over segment matches in other configurations
+    let bestMatch: [ServeTarget, string, number, number] | undefined;
+    for (const [target, outputPath] of candidates) {
+      const publicPathLength =
+        target.publicPath && url.pathname.startsWith(target.publicPath)
+          ? target.publicPath.length
+          : 0;
+      const pathParts = normalizeUrl(url, target.publicPath).pathname.replace(/^\//, '').split('/');
+      const templatePathParts = outputPath.replace(/^[\\/]/, '').split(path.sep);
+
+      let matchLength = -1;
+      for (let i = 0; i < templatePathParts.length; i++) {
+        if (templatePathParts[i] === pathParts[i]) {
+          matchLength = i;
+        } else {
+          break;
+        }
+      }
+
+      if (matchLength < 0 && !publicPathLength) continue;
+      if (
+        !bestMatch ||
+        publicPathLength > bestMatch[2] ||
+        (publicPathLength === bestMatch[2] && matchLength > bestMatch[3])
+      ) {
+        bestMatch = [target, outputPath, publicPathLength, matchLength];
+      }
+    }
 
-  const rootUrl = `http://${host}:${port}`;
-  const server = createServer((req, res) => {
+    if (bestMatch) {
+      logger.debug(`Best match for ${url.pathname}: ${bestMatch[1]}`);
+      return [bestMatch[0], bestMatch[1]];
+    }
+
+    return [candidates[0][0], candidates[0][1]];
+  }
+
+  const requestListener: RequestListener = (req, res) => {
     if (!req.url) return;
     const url = new URL(req.url, rootUrl);
 
-    async function handleRequest() {
-      await context.wait();
-
-      let normalizedUrl = url;
-      if (publicPath) {
-        // Strip "publicPath" from the beginning of the URL because
-        // serve-static doesn't support path remapping
-        normalizedUrl = new URL(url.pathname.replace(new RegExp(`^${publicPath}`), ''), rootUrl);
-        req.url = normalizedUrl.toString();
+    function notFound() {
+      // If requested, rewrite not-found requests to the best index file
+      if (rewrite) {
+        const [target, templateOutputPath] = findTemplate(url);
+
+        logger.debug(`Rewriting ${url.pathname} to ${templateOutputPath}`);
+
+        fs.createReadStream(path.resolve(target.absOutDir, templateOutputPath)).pipe(
+          res.setHeader('Content-Type', 'text/html'),
+        );
+        return;
       }
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.write('404 Not Found\n');
+      res.end();
+    }
 
-      staticHandler(req, res, () => {
-        // If requested, rewrite not-found requests to the best index file based on the longest
-        // matching patch segment between the request URL and the template output file (SPA mode)
-        if (rewrite) {
-          let templateOutputPath: string | undefined;
-          if (allWriteOptions.length === 1) {
-            templateOutputPath = allWriteOptions[0].template.outputPath;
-          } else {
-            const pathParts = normalizedUrl.pathname.replace(/^\//, '').split('/');
-            const templateSegmentMatchLength: Record<string, number> = {};
-
-            for (const { template } of allWriteOptions) {
-              const templatePathParts = template.outputPath.replace(/^[\\/]/, '').split(path.sep);
-              for (let i = 0; i < templatePathParts.length; i++) {
-                if (templatePathParts[i] === pathParts[i]) {
-                  templateSegmentMatchLength[template.outputPath] = i;
-                } else {
-                  break;
-                }
-              }
-            }
-
-            const bestMatch = Object.entries(templateSegmentMatchLength).sort(
-              ([, a], [, b]) => b - a,
-            )[0];
-
-            if (bestMatch) {
-              logger.debug(`Best match for ${url.pathname}: ${bestMatch[0]}`);
-            }
-
-            templateOutputPath = bestMatch?.[0] ?? allWriteOptions[0].template.outputPath;
-          }
-
-          logger.debug(`Rewriting ${url.pathname} to ${templateOutputPath}`);
-
-          fs.createReadStream(path.resolve(absOutDir, templateOutputPath)).pipe(
-            res.setHeader('Content-Type', 'text/html'),
-          );
-          return;
-        }
-        res.writeHead(404, { 'Content-Type': 'text/plain' });
-        res.write('404 Not Found\n');
-        res.end();
-      });
+    function serveTarget(index: number) {
+      const target = targets[index];
+      if (!target) {
+        notFound();
+        return;
+      }
+
+      req.url = normalizeUrl(url, target.publicPath).toString();
+
+      const next = () => serveTarget(index + 1);
+      if (servedirHandler) {
+        servedirHandler(req, res, () => target.outputHandler(req, res, next));
+      } else {
+        target.outputHandler(req, res, next);
+      }
+    }
+
+    async function handleRequest() {
+      await Promise.all(targets.map(target => target.context.wait()));
+      serveTarget(0);
     }
 
-    const handled = lrHandler?.(req, res) ?? false;
+    const handled =
+      (lrHandler?.(req, res) ?? false) || (proxyHandler?.handleRequest(req, res) ?? false);
     if (!handled) {
       handleRequest().catch(err => {
         logger.error(err, err.stack);
         res.writeHead(500).write(err.toString());
       });
     }
+  };
+
+  const server: Server = httpsOptions
+    ? createHttpsServer(httpsOptions, requestListener)
+    : createServer(requestListener);
+
+  server.on('upgrade', (req, socket, head: Buffer) => {
+    if (!proxyHandler?.handleUpgrade(req, socket, head)) socket.destroy();
   });
 
   // https://github.com/nodejs/node/issues/40537
   dns.setDefaultResultOrder('ipv4first');
 
-  server.listen(port, host, () => {
-    const url = pc.cyan(`http://${host}:${port}`);
-    logger.info(`Listening on ${url}`);
-  });
+  const contexts = targets.map(target => target.context);
+  let disableShortcuts: (() => void) | undefined;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  } catch (e) {
+    await Promise.all(contexts.map(context => context.dispose()));
+    throw e;
+  }
+
+  logger.event({ type: 'server-listening', url: rootUrl });
+  if (logger.logFormat === 'text') logger.info(`Listening on ${pc.cyan(rootUrl)}`);
 
-  async function shutdown(exitCode = 0) {
+  if (shortcuts) {
+    disableShortcuts = enableShortcuts(
+      [
+        ...buildShortcuts(contexts, typecheckRunners),
+        { key: 'o', description: 'open in browser', action: () => openUrl(rootUrl, logger) },
+      ],
+      logger,
+    );
+  }
+
+  async function shutdown() {
     logger.info('Shutting down…');
+    disableShortcuts?.();
 
-    const shutdownPromises: Promise<void>[] = [];
-    if (server) shutdownPromises.push(promisify(server.close)());
+    clients.forEach(res => {
+      res.end();
+    });
+    // Live reload and proxied connections would otherwise keep the server open
+    server.closeAllConnections();
     try {
-      await Promise.all(shutdownPromises);
+      await promisify(server.close.bind(server))();
     } catch {
       // ignore errors on 'close'
     }
 
-    if (context) await context.dispose();
-    clients.forEach(res => {
-      res.end();
-    });
-    process.exitCode = exitCode;
+    await Promise.all(contexts.map(context => context.dispose()));
   }
 
-  Graceful.on('exit', () => shutdown());
+  await Promise.all(contexts.map(context => context.watch()));
 
-  await context.watch();
+  return { contexts, url: rootUrl, dispose: shutdown };
 }
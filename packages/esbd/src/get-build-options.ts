@@ -2,6 +2,7 @@ import type { BuildOptions } from 'esbuild';
 import path from 'path';
 
 import type { BuildMode, ResolvedEsbdConfig } from './config';
+import { getPublicEnv } from './env';
 import type { EntryPoints, WriteTemplateOptions } from './html-entry-point';
 import { readTemplate } from './html-entry-point';
 
@@ -14,6 +15,31 @@ export interface BuildOptionsWithInvariants extends BuildOptions {
 
 export type HtmlBuildOptions = [BuildOptionsWithInvariants, WriteTemplateOptions[]];
 
+/**
+ * Returns public environment variables for browser bundles, if `envPrefix` is set.
+ */
+function getConfigPublicEnv(mode: BuildMode, config: ResolvedEsbdConfig): Record<string, string> {
+  if (!config.envPrefix || config.platform === 'node') return {};
+  return getPublicEnv(config.absWorkingDir, mode, config.envPrefix);
+}
+
+/**
+ * Returns the esbuild `define` option, including public environment variables.
+ */
+export function getDefine(
+  mode: BuildMode,
+  config: ResolvedEsbdConfig,
+): Record<string, string> | undefined {
+  const publicEnv = Object.entries(getConfigPublicEnv(mode, config));
+  if (!publicEnv.length) return config.define;
+
+  const define: Record<string, string> = {};
+  for (const [key, value] of publicEnv) {
+    define[`process.env.${key}`] = JSON.stringify(value);
+  }
+  return { ...define, ...config.define };
+}
+
 export async function getHtmlBuildOptions(
   htmlEntries: (readonly [string, string])[],
   mode: BuildMode,
@@ -22,19 +48,30 @@ export async function getHtmlBuildOptions(
   const outdir = config.outdir;
 
   const {
+    baseMode,
+    budgets: _budgets,
+    budgetSnapshot: _budgetSnapshot,
+    commands: _commands,
+    compress: _compress,
     copy: _,
     cssChunkFilter,
+    envPrefix: _envPrefix,
+    extends: _extends,
     format = 'esm',
     integrity,
     ignoreAssets,
+    manifest: _manifest,
+    modes: _modes,
     name: __,
+    nodeDev: _nodeDev,
+    proxy: ___,
     publicPath = '',
     target = 'es2017',
     ...options
   } = config;
 
   const esbuildDefine = config.define ?? {};
-  const define: Record<string, any> = {};
+  const define: Record<string, any> = { ...getConfigPublicEnv(mode, config) };
   for (const key of Object.keys(esbuildDefine)) {
     const value = esbuildDefine[key];
     if (typeof value === 'string') {
@@ -77,10 +114,10 @@ export async function getHtmlBuildOptions(
     {
       // Overridable options
       format,
-      minify: mode === 'production',
+      minify: baseMode === 'production',
       publicPath,
       target,
-      sourcemap: config.sourcemap ?? (mode === 'development' ? true : undefined),
+      sourcemap: config.sourcemap ?? (baseMode === 'development' ? true : undefined),
 
       // User-defined options
       ...options,
@@ -88,6 +125,7 @@ export async function getHtmlBuildOptions(
       // Invariant options
       absWorkingDir: config.absWorkingDir,
       bundle: true,
+      define: getDefine(mode, config),
       entryPoints: allEntryPoints,
       metafile: true,
       outdir,
@@ -106,11 +144,22 @@ export function getBuildOptions(
   if (!outdir) throw new Error('"outdir" option must be set');
 
   const {
+    baseMode,
+    budgets: _budgets,
+    budgetSnapshot: _budgetSnapshot,
+    commands: _commands,
+    compress: _compress,
     copy: _,
     cssChunkFilter: __,
+    envPrefix: _envPrefix,
+    extends: _extends,
     integrity: ___,
     ignoreAssets: ____,
+    manifest: _manifest,
+    modes: _modes,
     name: _____,
+    nodeDev: _nodeDev,
+    proxy: ______,
     ...options
   } = config;
 
@@ -122,8 +171,8 @@ export function getBuildOptions(
 
   return {
     // Overridable options
-    minify: mode === 'production',
-    sourcemap: config.sourcemap ?? (mode === 'development' ? true : undefined),
+    minify: baseMode === 'production',
+    sourcemap: config.sourcemap ?? (baseMode === 'development' ? true : undefined),
 
     // User-defined options
     ...options,
@@ -131,9 +180,27 @@ export function getBuildOptions(
     // Invariant options
     absWorkingDir: config.absWorkingDir,
     bundle: true,
+    define: getDefine(mode, config),
     entryPoints: allEntryPoints,
     metafile: true,
     outdir,
     write: false,
   };
 }
+
+/**
+ * Returns the build options for programs started by `node-dev`, which always
+ * target the current version of Node unless a target is configured.
+ */
+export function getNodeDevBuildOptions(
+  entries: (readonly [string, string])[],
+  mode: BuildMode,
+  config: ResolvedEsbdConfig,
+): BuildOptionsWithInvariants {
+  return {
+    ...getBuildOptions(entries, mode, config),
+    minify: config.baseMode === 'production',
+    platform: 'node',
+    target: config.target ?? `node${process.versions.node}`,
+  };
+}
@@ -0,0 +1,114 @@
+import fs from 'node:fs';
+import { isIP } from 'node:net';
+import path from 'node:path';
+import pc from 'picocolors';
+import { generate } from 'selfsigned';
+
+import type { Logger } from './log';
+
+export interface HttpsOptions {
+  cert: Buffer;
+  key: Buffer;
+}
+
+interface GetHttpsOptions {
+  basedir: string;
+  certFile?: string;
+  host: string;
+  keyFile?: string;
+  logger: Logger;
+}
+
+// Regenerate well before browsers would reject the certificate
+const CERT_VALIDITY_DAYS = 30;
+const CERT_MAX_AGE_MS = (CERT_VALIDITY_DAYS - 1) * 24 * 60 * 60 * 1000;
+
+function getAltNames(host: string) {
+  const names = new Set(['localhost', '127.0.0.1', '::1']);
+  if (host !== '0.0.0.0' && host !== '::') names.add(host);
+
+  return Array.from(names, name =>
+    // 2 = DNS name, 7 = IP address
+    isIP(name) ? { type: 7, ip: name } : { type: 2, value: name },
+  );
+}
+
+async function generateCertificate(host: string): Promise<HttpsOptions> {
+  const pems = await new Promise<{ cert: string; private: string }>((resolve, reject) => {
+    generate(
+      [{ name: 'commonName', value: 'localhost' }],
+      {
+        algorithm: 'sha256',
+        days: CERT_VALIDITY_DAYS,
+        keySize: 2048,
+        extensions: [
+          { name: 'basicConstraints', cA: false },
+          { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+          { name: 'extKeyUsage', serverAuth: true },
+          { name: 'subjectAltName', altNames: getAltNames(host) },
+        ],
+      },
+      (err, result) => (err ? reject(err) : resolve(result)),
+    );
+  });
+
+  return { cert: Buffer.from(pems.cert), key: Buffer.from(pems.private) };
+}
+
+/**
+ * Reads the TLS key and certificate for the development server.
+ *
+ * If neither `keyFile` nor `certFile` are provided, a self-signed certificate
+ * is generated and cached in `node_modules/.cache/esbd` so that it only needs
+ * to be trusted by the browser once.
+ */
+export async function getHttpsOptions({
+  basedir,
+  certFile,
+  host,
+  keyFile,
+  logger,
+}: GetHttpsOptions): Promise<HttpsOptions> {
+  if (certFile || keyFile) {
+    if (!certFile || !keyFile) {
+      throw new Error(
+        'Both --https-cert and --https-key must be provided to use a custom certificate',
+      );
+    }
+    const [cert, key] = await Promise.all([
+      fs.promises.readFile(path.resolve(basedir, certFile)),
+      fs.promises.readFile(path.resolve(basedir, keyFile)),
+    ]);
+    return { cert, key };
+  }
+
+  const cacheDir = path.join(basedir, 'node_modules', '.cache', 'esbd');
+  const certPath = path.join(cacheDir, `${host.replace(/[^\w.-]/g, '_')}-cert.pem`);
+  const keyPath = path.join(cacheDir, `${host.replace(/[^\w.-]/g, '_')}-key.pem`);
+
+  try {
+    const stats = await fs.promises.stat(certPath);
+    if (Date.now() - stats.mtimeMs < CERT_MAX_AGE_MS) {
+      const [cert, key] = await Promise.all([
+        fs.promises.readFile(certPath),
+        fs.promises.readFile(keyPath),
+      ]);
+      logger.debug(`Using cached self-signed certificate ${pc.gray(certPath)}`);
+      return { cert, key };
+    }
+  } catch {
+    // Certificate has not been generated yet
+  }
+
+  logger.info('Generating self-signed certificate for HTTPS');
+  const options = await generateCertificate(host);
+
+  await fs.promises.mkdir(cacheDir, { recursive: true });
+  await Promise.all([
+    fs.promises.writeFile(certPath, options.cert),
+    fs.promises.writeFile(keyPath, options.key, { mode: 0o600 }),
+  ]);
+  logger.debug(`Wrote self-signed certificate to ${pc.gray(certPath)}`);
+
+  return options;
+}
@@ -1,11 +1,20 @@
 import type { BuildContext, BuildOptions, BuildResult, Plugin } from 'esbuild';
 import { context as createContext } from 'esbuild';
 import { EventEmitter } from 'events';
-import { watch as fsWatch } from 'fs';
-import { copyFile, mkdir, rm } from 'fs/promises';
+import { mkdir, rm } from 'fs/promises';
 import path from 'path';
 import pc from 'picocolors';
 
+import { getCompressedPaths } from './compress';
+import type { CompressOptions } from './config';
+import type { CopyRule } from './copy-assets';
+import {
+  copyAsset,
+  normalizeCopyRules,
+  removeAsset,
+  resolveCopyRule,
+  watchCopyRule,
+} from './copy-assets';
 import type { Logger } from './log';
 
 type RequiredBuildOptions = BuildOptions & { metafile: true; write: false };
@@ -17,6 +26,7 @@ export type WatchEvent = [event: string, path: string];
 interface IncrementalBuildOptions extends RequiredBuildOptions {
   absWorkingDir: string;
   cleanOutdir?: boolean;
+  compress?: boolean | CompressOptions;
   copy?: [from: string, to?: string][];
   logger: Logger;
   onBuildStart?: (options: RequiredBuildOptions & { buildCount: number }) => Promise<void> | void;
@@ -26,17 +36,35 @@ interface IncrementalBuildOptions extends RequiredBuildOptions {
   ) => Promise<void> | void;
 }
 
-interface IncrementalBuildContext extends BuildContext<RequiredBuildOptions> {
+export interface IncrementalBuildContext extends BuildContext<RequiredBuildOptions> {
   watch(): Promise<void>;
   wait(): Promise<void>;
+
+  /**
+   * Replaces the underlying esbuild context with one that uses the updated
+   * options, e.g., when entry points have been added or removed. If the
+   * context was being watched, the new context will be watched as well.
+   */
+  recreate(options: Omit<BuildOptions, 'absWorkingDir' | 'metafile' | 'write'>): Promise<void>;
+
+  /**
+   * Aborted when the context is disposed.
+   */
+  signal: AbortSignal;
 }
 
 async function syncOutputs(
   result: IncrementalBuildResult,
   previousOutputs: Set<string>,
+  compress: boolean | CompressOptions | undefined,
   logger: Logger,
 ): Promise<Set<string>> {
-  const outputFiles = new Set(result.outputFiles.map(file => file.path));
+  const outputFiles = new Set(
+    result.outputFiles.flatMap(file => [
+      file.path,
+      ...getCompressedPaths(file.path, file.contents.byteLength, compress),
+    ]),
+  );
   const staleOutputs = Array.from(previousOutputs.values()).filter(file => !outputFiles.has(file));
   await Promise.allSettled(
     staleOutputs.map(async file => {
@@ -53,13 +81,16 @@ async function syncOutputs(
 
 export async function incrementalBuild({
   cleanOutdir,
+  compress,
   copy,
   logger,
   onBuildEnd,
   onBuildStart,
-  ...options
+  ...initialOptions
 }: IncrementalBuildOptions): Promise<IncrementalBuildContext> {
+  let options = initialOptions;
   let running = false;
+  let watching = false;
 
   const basedir = options.absWorkingDir;
   const evt = new EventEmitter();
@@ -67,29 +98,23 @@ export async function incrementalBuild({
   const absOutDir = outdir ? path.resolve(basedir, outdir) : undefined;
   let previousOutputs = new Set<string>();
 
-  const normalizedCopy: [string, string][] = [];
+  let copyRules: CopyRule[] = [];
   if (copy) {
     if (!absOutDir) {
       logger.warn('"outdir" is required when "copy" is provided');
     } else {
-      for (const [from, to] of copy) {
-        normalizedCopy.push([
-          path.resolve(basedir, from),
-          path.resolve(absOutDir, to ?? (path.isAbsolute(from) ? path.basename(from) : from)),
-        ]);
-      }
+      copyRules = normalizeCopyRules(copy, basedir, absOutDir);
     }
   }
 
-  function copyAssets(fromPath?: string) {
-    return Promise.all(
-      normalizedCopy
-        .filter(([from]) => !fromPath || fromPath === from)
-        .map(([from, to]) => {
-          logger.info(pc.gray(`Copying ${from} to ${to}`));
-          return copyFile(from, to);
-        }),
-    );
+  function copyOne(from: string, to: string): Promise<void> {
+    logger.info(pc.gray(`Copying ${from} to ${to}`));
+    return copyAsset(from, to);
+  }
+
+  async function copyAssets() {
+    const pairs = await Promise.all(copyRules.map(resolveCopyRule));
+    await Promise.all(pairs.flat().map(([from, to]) => copyOne(from, to)));
   }
 
   const resultPlugin: Plugin = {
@@ -107,7 +132,7 @@ export async function incrementalBuild({
           logger.debug('Build successful');
           if (absOutDir) await mkdir(absOutDir, { recursive: true });
           if (cleanOutdir) {
-            previousOutputs = await syncOutputs(result, previousOutputs, logger);
+            previousOutputs = await syncOutputs(result, previousOutputs, compress, logger);
           }
           await copyAssets();
         } else {
@@ -122,11 +147,21 @@ export async function incrementalBuild({
     },
   };
 
-  const context = await createContext({
-    ...options,
-    logLevel: logger.logLevel === 'info' ? 'warning' : options.logLevel,
-    plugins: [resultPlugin, ...(options.plugins ?? [])],
-  });
+  function create() {
+    return createContext({
+      ...options,
+      // Messages are reported as events by the timing plugin in JSON mode
+      logLevel:
+        logger.logFormat === 'json'
+          ? 'silent'
+          : logger.logLevel === 'info'
+            ? 'warning'
+            : options.logLevel,
+      plugins: [resultPlugin, ...(options.plugins ?? [])],
+    });
+  }
+
+  let context = await create();
 
   const watchAbort = new AbortController();
 
@@ -135,15 +170,34 @@ export async function incrementalBuild({
     watchAbort.abort();
   }
 
+  async function recreate(
+    nextOptions: Omit<BuildOptions, 'absWorkingDir' | 'metafile' | 'write'>,
+  ): Promise<void> {
+    await context.dispose();
+    options = { ...options, ...nextOptions };
+    context = await create();
+    if (watching) await context.watch();
+  }
+
   async function watch(): Promise<void> {
     await context.watch();
-
-    for (const [from] of normalizedCopy) {
-      fsWatch(from, { persistent: false, signal: watchAbort.signal }, event => {
-        if (event === 'change') {
-          copyAssets(from).catch(logger.error);
-        }
-      });
+    if (watching) return;
+    watching = true;
+
+    for (const rule of copyRules) {
+      watchCopyRule(
+        rule,
+        watchAbort.signal,
+        (from, to, removed) => {
+          if (removed) {
+            logger.info(pc.gray(`Removing ${to}`));
+            removeAsset(to).catch(logger.error);
+          } else {
+            copyOne(from, to).catch(logger.error);
+          }
+        },
+        error => logger.warn(`Failed to watch ${rule.from}:`, error),
+      );
     }
   }
 
@@ -158,5 +212,14 @@ export async function incrementalBuild({
     await rm(absOutDir, { recursive: true, force: true });
   }
 
-  return { ...context, dispose, wait, watch };
+  return {
+    cancel: () => context.cancel(),
+    dispose,
+    rebuild: () => context.rebuild(),
+    recreate,
+    serve: serveOptions => context.serve(serveOptions),
+    signal: watchAbort.signal,
+    wait,
+    watch,
+  };
 }
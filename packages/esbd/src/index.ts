@@ -1,5 +1,31 @@
 import configure from './cli';
 
-export type { BuildMode, CommandName, ConfigFn, EsbdConfig, EsbdConfigResult } from './config';
+export type {
+  BuildApiOptions,
+  EsbdApiOptions,
+  EsbdEvent,
+  EsbdEventType,
+  EsbdHandle,
+  NodeDevApiOptions,
+  NodeDevHandle,
+  ServeApiOptions,
+  ServeHandle,
+} from './api';
+export { build, nodeDev, serve } from './api';
+export type { ConfigureOptions } from './cli';
+export type {
+  BaseBuildMode,
+  BuildMode,
+  CommandName,
+  ConfigFn,
+  CustomBuildModes,
+  EsbdBaseConfig,
+  EsbdConfig,
+  EsbdConfigOverrides,
+  EsbdConfigResult,
+} from './config';
+export { defineConfig } from './config';
+export type { InspectOptions } from './inspector';
+export type { LogEvent } from './log';
 
 export { configure, configure as default };
@@ -0,0 +1,225 @@
+import type { BuildOptions } from 'esbuild';
+import path from 'path';
+import pc from 'picocolors';
+import util from 'util';
+
+import type { BaseBuildMode, BuildMode, CommandName, EsbdConfig } from './config';
+import { resolveConfig } from './config';
+import { getBuildOptions, getHtmlBuildOptions, getNodeDevBuildOptions } from './get-build-options';
+import type { WriteTemplateOptions } from './html-entry-point';
+
+/**
+ * Where the value of a build option came from: the user's configuration, a
+ * default that esbd fills in, or esbd itself (options that esbd always sets or
+ * that it derives from the configuration, such as `entryPoints`).
+ */
+export type OptionSource = 'config' | 'default' | 'esbd';
+
+export interface InspectedOption {
+  value: unknown;
+  source: OptionSource;
+}
+
+export interface InspectedBuild {
+  /** Entry points that are built by this esbuild context. */
+  kind: 'html' | 'program' | 'source';
+  options: Record<string, InspectedOption>;
+  plugins: { name: string; source: Exclude<OptionSource, 'default'> }[];
+}
+
+export interface InspectedHtmlEntry {
+  /** Template path, relative to `absWorkingDir`. */
+  template: string;
+  /** Output path, relative to `outdir`. */
+  output: string;
+  /** Entry points discovered in `<script>` and `<link>` tags. */
+  entryPoints: Record<string, string>;
+  /** Assets referenced by the template, relative to `absWorkingDir`. */
+  assets: string[];
+}
+
+export interface ConfigInspection {
+  name?: string;
+  command: CommandName;
+  mode: BuildMode;
+  builds: InspectedBuild[];
+  htmlEntries: InspectedHtmlEntry[];
+}
+
+export interface InspectConfigOptions {
+  baseMode: BaseBuildMode;
+  command: CommandName;
+  defaultWorkingDir: string;
+  mode: BuildMode;
+}
+
+// Options that are set by esbd regardless of the configuration
+const ESBD_OPTIONS = new Set(['bundle', 'metafile', 'write']);
+
+function getOptionSource(config: EsbdConfig, key: string, value: unknown): OptionSource {
+  if (ESBD_OPTIONS.has(key)) return 'esbd';
+  if (!(key in config)) return 'default';
+  return util.isDeepStrictEqual(config[key as keyof EsbdConfig], value) ? 'config' : 'esbd';
+}
+
+function inspectBuild(
+  kind: InspectedBuild['kind'],
+  config: EsbdConfig,
+  { plugins = [], ...buildOptions }: BuildOptions,
+  esbdPlugins: string[],
+): InspectedBuild {
+  const options: Record<string, InspectedOption> = {};
+  const entries = Object.entries(buildOptions).sort(([a], [b]) => a.localeCompare(b));
+  for (const [key, value] of entries) {
+    if (value !== undefined) {
+      options[key] = { value, source: getOptionSource(config, key, value) };
+    }
+  }
+
+  return {
+    kind,
+    options,
+    plugins: [
+      { name: 'incremental-build', source: 'esbd' },
+      ...plugins.map(plugin => ({ name: plugin.name, source: 'config' as const })),
+      ...esbdPlugins.map(name => ({ name, source: 'esbd' as const })),
+    ],
+  };
+}
+
+/**
+ * Returns the esbuild options that esbd would use to run `command` with a
+ * configuration, along with the entry points and assets found in its HTML templates.
+ */
+export async function inspectConfig(
+  config: EsbdConfig,
+  { baseMode, command, defaultWorkingDir, mode }: InspectConfigOptions,
+): Promise<ConfigInspection> {
+  const resolvedConfig = resolveConfig(
+    config,
+    config.logLevel ?? 'info',
+    defaultWorkingDir,
+    baseMode,
+  );
+  const { absWorkingDir, entryPoints } = resolvedConfig;
+
+  const entries = Array.isArray(entryPoints)
+    ? entryPoints.map(entry =>
+        typeof entry === 'object' ? ([entry.out, entry.in] as const) : ([entry, entry] as const),
+      )
+    : Object.entries(entryPoints);
+  const htmlEntries = entries.filter(([, entryPath]) => entryPath.endsWith('.html'));
+  const sourceEntries = entries.filter(([, entryPath]) => !entryPath.endsWith('.html'));
+
+  const builds: InspectedBuild[] = [];
+  let allWriteOptions: WriteTemplateOptions[] = [];
+
+  switch (command) {
+    case 'build': {
+      const esbdPlugins = [...(config.budgets ? ['esbd-budgets'] : []), 'esbd-timing'];
+      if (sourceEntries.length > 0) {
+        const buildOptions = getBuildOptions(sourceEntries, mode, resolvedConfig);
+        builds.push(inspectBuild('source', config, buildOptions, esbdPlugins));
+      }
+      if (htmlEntries.length > 0) {
+        let buildOptions: BuildOptions;
+        [buildOptions, allWriteOptions] = await getHtmlBuildOptions(
+          htmlEntries,
+          mode,
+          resolvedConfig,
+        );
+        builds.unshift(inspectBuild('html', config, buildOptions, esbdPlugins));
+      }
+      break;
+    }
+
+    case 'node-dev': {
+      const buildOptions = getNodeDevBuildOptions(entries, mode, resolvedConfig);
+      builds.push(inspectBuild('program', config, buildOptions, ['esbd-timing']));
+      break;
+    }
+
+    case 'serve': {
+      // Other entry points are built alongside the HTML entry points
+      let buildOptions: BuildOptions;
+      [buildOptions, allWriteOptions] = await getHtmlBuildOptions(entries, mode, resolvedConfig);
+      builds.push(inspectBuild('html', config, buildOptions, ['esbd-timing']));
+      break;
+    }
+  }
+
+  return {
+    name: config.name,
+    command,
+    mode,
+    builds,
+    htmlEntries: allWriteOptions.map(({ htmlEntryPoints, tagAssets, template, textAssets }) => {
+      const templateDir = path.dirname(template.inputPath);
+      return {
+        template: path.relative(absWorkingDir, template.inputPath),
+        output: template.outputPath,
+        entryPoints: htmlEntryPoints,
+        assets: [...tagAssets, ...textAssets].map(([, url]) =>
+          path.relative(absWorkingDir, path.resolve(templateDir, url)),
+        ),
+      };
+    }),
+  };
+}
+
+const BUILD_TITLES: Record<InspectedBuild['kind'], string> = {
+  html: 'HTML entry point build',
+  program: 'Program build',
+  source: 'Source entry point build',
+};
+
+/**
+ * Formats inspections for display, with the source of each option next to its value.
+ */
+export function formatInspections(
+  inspections: ConfigInspection[],
+  color: boolean = pc.isColorSupported,
+): string {
+  const { bold, cyan, gray } = pc.createColors(color);
+  const sourceColors: Record<OptionSource, (text: string) => string> = {
+    config: text => text,
+    default: gray,
+    esbd: cyan,
+  };
+  const formatSource = (source: OptionSource) => sourceColors[source](source.padEnd(7));
+  const formatValue = (value: unknown) =>
+    util.inspect(value, { breakLength: Infinity, colors: color, depth: null });
+
+  const lines = [
+    gray('Sources: config = your configuration, default = esbd default, esbd = set by esbd'),
+  ];
+
+  for (const { builds, command, htmlEntries, mode, name } of inspections) {
+    lines.push('', bold(`${name ?? 'config'} (${command}, ${mode})`));
+
+    for (const { kind, options, plugins } of builds) {
+      const keys = Object.keys(options);
+      const width = Math.max(...keys.map(key => key.length));
+      lines.push('', `  ${BUILD_TITLES[kind]}`);
+      for (const key of keys) {
+        const { source, value } = options[key];
+        lines.push(`    ${key.padEnd(width)}  ${formatSource(source)}  ${formatValue(value)}`);
+      }
+      for (const { name: pluginName, source } of plugins) {
+        lines.push(`    ${'plugin'.padEnd(width)}  ${formatSource(source)}  ${pluginName}`);
+      }
+    }
+
+    for (const { assets, entryPoints, output, template } of htmlEntries) {
+      lines.push('', `  ${template} → ${output}`);
+      for (const [entryName, entryPath] of Object.entries(entryPoints)) {
+        lines.push(`    entry  ${entryName}: ${entryPath}`);
+      }
+      for (const asset of assets) {
+        lines.push(`    asset  ${asset}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,98 @@
+import http from 'node:http';
+import net from 'node:net';
+
+export interface InspectOptions {
+  /**
+   * Pause the program before user code starts (`--inspect-brk`).
+   */
+  brk: boolean;
+  host: string;
+  port: number;
+}
+
+interface InspectorTarget {
+  devtoolsFrontendUrl?: string;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 9229;
+const ADDRESS_PATTERN = /^(?:(\[[^\]]+\]|[^:]+):)?(\d+)$/;
+
+/**
+ * Parses the value of an `--inspect[=[host:]port]` flag using the same
+ * defaults as Node.js.
+ */
+export function parseInspectAddress(value: string): Omit<InspectOptions, 'brk'> {
+  if (!value) return { host: DEFAULT_HOST, port: DEFAULT_PORT };
+
+  const match = ADDRESS_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid inspector address "${value}", expected --inspect=[host:]port`);
+  }
+  return { host: match[1]?.replace(/^\[|\]$/g, '') ?? DEFAULT_HOST, port: Number(match[2]) };
+}
+
+/**
+ * Resolves a port of `0` to a specific free port so that the inspector
+ * listens on the same port every time the program restarts.
+ */
+export function resolveInspectPort(host: string, port: number): Promise<number> {
+  if (port !== 0) return Promise.resolve(port);
+
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, host, () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+export function formatInspectFlag({ brk, host, port }: InspectOptions): string {
+  const address = host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`;
+  return `${brk ? '--inspect-brk' : '--inspect'}=${address}`;
+}
+
+function fetchTargets(host: string, port: number): Promise<InspectorTarget[]> {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ host, port, path: '/json/list', timeout: 1000 }, res => {
+      let body = '';
+      res.setEncoding('utf-8');
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(body));
+        } catch (e) {
+          reject(e);
+        }
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error('Inspector request timed out')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Waits for the inspector of a newly spawned program to start listening and
+ * returns its DevTools URL, or `undefined` if it could not be found.
+ */
+export async function getDevToolsUrl(
+  { host, port }: Omit<InspectOptions, 'brk'>,
+  isAlive: () => boolean,
+  attempts = 20,
+): Promise<string | undefined> {
+  // Wildcard addresses can't be requested directly
+  const requestHost = host === '0.0.0.0' || host === '::' ? DEFAULT_HOST : host;
+
+  for (let i = 0; i < attempts && isAlive(); i++) {
+    try {
+      const [target] = await fetchTargets(requestHost, port);
+      if (target?.devtoolsFrontendUrl) return target.devtoolsFrontendUrl;
+    } catch {
+      // The inspector might not be listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  return undefined;
+}
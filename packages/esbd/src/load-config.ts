@@ -0,0 +1,109 @@
+import { build } from 'esbuild';
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+import type { ConfigFn, CustomBuildModes, EsbdConfigResult } from './config';
+
+export const CONFIG_FILE_NAMES = [
+  'esbd.config.ts',
+  'esbd.config.mts',
+  'esbd.config.js',
+  'esbd.config.mjs',
+  'esbd.config.json',
+];
+
+/**
+ * Finds the first esbd config file in `cwd`, in order of {@link CONFIG_FILE_NAMES}.
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const configPath = path.join(cwd, fileName);
+    if (fs.existsSync(configPath)) return configPath;
+  }
+  return undefined;
+}
+
+async function loadTsConfigFile(configPath: string): Promise<unknown> {
+  // Write the bundled config next to the original so that relative
+  // requires and node_modules resolution continue to work
+  const bundledPath = `${configPath}.timestamp-${Date.now()}.cjs`;
+
+  const result = await build({
+    absWorkingDir: path.dirname(configPath),
+    banner: {
+      js: 'const __esbd_import_meta_url = require("url").pathToFileURL(__filename).href;',
+    },
+    bundle: true,
+    define: { 'import.meta.url': '__esbd_import_meta_url' },
+    entryPoints: [configPath],
+    format: 'cjs',
+    logLevel: 'silent',
+    outfile: bundledPath,
+    packages: 'external',
+    platform: 'node',
+    target: `node${process.versions.node}`,
+    write: false,
+  });
+
+  await fs.promises.writeFile(bundledPath, result.outputFiles[0].contents);
+  try {
+    return require(bundledPath);
+  } finally {
+    delete require.cache[bundledPath];
+    await fs.promises.rm(bundledPath, { force: true });
+  }
+}
+
+// Only the general shape is checked here, the options themselves are checked by
+// `validateConfigResult` and `validateBuildModes` once the config has been loaded
+function isConfigExport(value: unknown): value is EsbdConfigResult | ConfigFn {
+  return !!value && (typeof value === 'object' || typeof value === 'function');
+}
+
+function isBuildModes(value: unknown): value is CustomBuildModes {
+  return !!value && typeof value === 'object';
+}
+
+export interface LoadedConfigFile {
+  config: EsbdConfigResult | ConfigFn;
+  buildModes?: CustomBuildModes;
+}
+
+/**
+ * Loads an esbd config file.
+ *
+ * TypeScript config files are bundled with esbuild before being evaluated.
+ * JavaScript config files may be either CommonJS or ES modules. The config
+ * should be the default export of the module, and custom build modes may be
+ * declared with a `buildModes` export.
+ */
+export async function loadConfigFile(configPath: string): Promise<LoadedConfigFile> {
+  const ext = path.extname(configPath);
+
+  let mod: unknown;
+  if (ext === '.json') {
+    mod = JSON.parse(await fs.promises.readFile(configPath, 'utf-8'));
+  } else if (ext === '.ts' || ext === '.mts' || ext === '.cts') {
+    mod = await loadTsConfigFile(configPath);
+  } else {
+    // The "Node16" module setting keeps this a dynamic import in CommonJS output,
+    // so that ES module config files can be loaded
+    mod = await import(pathToFileURL(configPath).href);
+  }
+
+  const namespace = mod && typeof mod === 'object' && 'default' in mod ? mod : undefined;
+  const config = namespace ? namespace.default : mod;
+  if (!isConfigExport(config)) {
+    throw new Error(
+      `Config file ${configPath} must export a configuration object, array or function`,
+    );
+  }
+
+  const buildModes = namespace && 'buildModes' in namespace ? namespace.buildModes : undefined;
+  if (buildModes !== undefined && !isBuildModes(buildModes)) {
+    throw new Error(`The "buildModes" export of ${configPath} must be an object`);
+  }
+
+  return { config, buildModes };
+}
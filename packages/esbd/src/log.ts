@@ -1,8 +1,9 @@
-import type { LogLevel } from 'esbuild';
+import type { Location, LogLevel } from 'esbuild';
 import type { Spinner } from 'io-spin';
 import spin from 'io-spin';
 import pc from 'picocolors';
 import prettyTime from 'pretty-time';
+import { format } from 'util';
 
 const SUCCESS = process.platform === 'win32' ? '√' : '✔';
 const WARNING = process.platform === 'win32' ? '‼' : '⚠';
@@ -13,8 +14,44 @@ export interface TimedSpinner extends Omit<Spinner, 'stop'> {
   stop(): [string, [number, number]];
 }
 
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Structured events that are written to stdout as newline-delimited JSON
+ * when the log format is `json`. Durations are in milliseconds.
+ */
+export type LogEvent =
+  | { type: 'log'; level: Exclude<LogLevel, 'silent'>; message: string }
+  | { type: 'build-start'; name?: string; entryPoints?: string[] }
+  | {
+      type: 'build-end';
+      name?: string;
+      entryPoints?: string[];
+      duration: number;
+      errors: number;
+      warnings: number;
+    }
+  | {
+      type: 'build-message' | 'typecheck-message';
+      name?: string;
+      kind: 'error' | 'warning';
+      text: string;
+      pluginName?: string;
+      location: Location | null;
+    }
+  | { type: 'file-written'; path: string; size: number }
+  | { type: 'typecheck-start' }
+  | { type: 'typecheck-end'; duration: number; errors: number; warnings: number }
+  | {
+      type: 'build-summary';
+      configs: { name?: string; duration: number; errors: number; warnings: number }[];
+    }
+  | { type: 'server-listening'; url: string }
+  | { type: 'node-dev-restart'; process?: string; duration: number };
+
 export interface Logger {
   logLevel: LogLevel;
+  logFormat: LogFormat;
   verbose(message: any, ...args: any[]): void;
   debug(message: any, ...args: any[]): void;
   info(message: any, ...args: any[]): void;
@@ -22,6 +59,24 @@ export interface Logger {
   error(message: any, ...args: any[]): void;
   success(message: any, ...args: any[]): void;
   spin(message: string): TimedSpinner;
+
+  /**
+   * Writes a structured event when the log format is `json`. Does nothing for
+   * the `text` format, where the same information is logged as a message.
+   */
+  event(event: LogEvent): void;
+
+  /**
+   * Writes messages that were held back by a buffered logger.
+   */
+  flush(): void;
+}
+
+export interface DerivedLoggerOptions {
+  /** Hold messages back until `flush` is called. */
+  buffer?: boolean;
+  /** Color of the `[name]` prefix. */
+  color?: (input: string) => string;
 }
 
 export const LOG_LEVELS: LogLevel[] = ['verbose', 'debug', 'info', 'warning', 'error', 'silent'];
@@ -32,6 +87,10 @@ const LEVEL_INFO = LOG_LEVELS.indexOf('info');
 const LEVEL_WARNING = LOG_LEVELS.indexOf('warning');
 const LEVEL_ERROR = LOG_LEVELS.indexOf('error');
 
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+export const PREFIX_COLORS = [pc.cyan, pc.magenta, pc.yellow, pc.green, pc.blue];
+
 export function LogLevelType(level: LogLevel) {
   if (!LOG_LEVELS.includes(level)) {
     throw new Error(`Invalid log level: "${level}"`);
@@ -39,7 +98,19 @@ export function LogLevelType(level: LogLevel) {
   return level;
 }
 
-export function createLogger(logLevel: LogLevel): Logger {
+export function LogFormatType(logFormat: LogFormat) {
+  if (!LOG_FORMATS.includes(logFormat)) {
+    throw new Error(`Invalid log format: "${logFormat}"`);
+  }
+  return logFormat;
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE = /\u001b\[[0-9;]*m/g;
+
+export function createLogger(logLevel: LogLevel, logFormat: LogFormat = 'text'): Logger {
+  if (logFormat === 'json') return createJsonLogger(logLevel);
+
   let busy = 0;
   const queue: (() => void)[] = [];
 
@@ -55,6 +126,7 @@ export function createLogger(logLevel: LogLevel): Logger {
 
   return {
     logLevel,
+    logFormat,
     verbose(message: any, ...args: any[]) {
       if (levelIndex > LEVEL_VERBOSE) return;
       enqueueOrFlush(() => console.log(message, ...args));
@@ -130,5 +202,111 @@ export function createLogger(logLevel: LogLevel): Logger {
         },
       };
     },
+
+    event() {},
+    flush() {},
   };
 }
+
+/**
+ * Creates a logger that writes every message and event to stdout as a JSON
+ * object on a single line. Messages are written immediately instead of
+ * waiting for spinners to stop.
+ */
+function createJsonLogger(logLevel: LogLevel): Logger {
+  const levelIndex = LOG_LEVELS.indexOf(logLevel);
+
+  function write(event: LogEvent) {
+    process.stdout.write(JSON.stringify({ time: new Date().toISOString(), ...event }) + '\n');
+  }
+
+  function log(level: Exclude<LogLevel, 'silent'>, message: any, args: any[]) {
+    if (levelIndex > LOG_LEVELS.indexOf(level)) return;
+    write({ type: 'log', level, message: format(message, ...args).replace(ANSI_ESCAPE, '') });
+  }
+
+  return {
+    logLevel,
+    logFormat: 'json',
+    verbose: (message: any, ...args: any[]) => log('verbose', message, args),
+    debug: (message: any, ...args: any[]) => log('debug', message, args),
+    info: (message: any, ...args: any[]) => log('info', message, args),
+    warn: (message: any, ...args: any[]) => log('warning', message, args),
+    error: (message: any, ...args: any[]) => log('error', message, args),
+    success: (message: any, ...args: any[]) => log('info', message, args),
+
+    spin(): TimedSpinner {
+      const startTime = process.hrtime();
+      return {
+        start() {
+          return this as any;
+        },
+        stop() {
+          const endTime = process.hrtime(startTime);
+          return [prettyTime(endTime, 'ms'), endTime];
+        },
+        update() {
+          return this as any;
+        },
+      };
+    },
+
+    event(event: LogEvent) {
+      if (logLevel !== 'silent') write(event);
+    },
+    flush() {},
+  };
+}
+
+/**
+ * Creates a logger that labels the messages of `parent` with a colored
+ * `[name]` prefix, e.g., for one of several configurations that are built in
+ * parallel.
+ */
+export function createDerivedLogger(
+  parent: Logger,
+  name: string,
+  { buffer = false, color = pc.cyan }: DerivedLoggerOptions = {},
+): Logger {
+  const prefix = color(`[${name}]`);
+  const queue: (() => void)[] = [];
+
+  function write(fn: () => void) {
+    if (buffer) {
+      queue.push(fn);
+    } else {
+      fn();
+    }
+  }
+
+  function derive(log: (message: any, ...args: any[]) => void) {
+    return (message: any, ...args: any[]) => write(() => log(`${prefix} ${message}`, ...args));
+  }
+
+  return {
+    logLevel: parent.logLevel,
+    logFormat: parent.logFormat,
+    verbose: derive(parent.verbose),
+    debug: derive(parent.debug),
+    info: derive(parent.info),
+    warn: derive(parent.warn),
+    error: derive(parent.error),
+    success: derive(parent.success),
+    spin: message => parent.spin(message),
+    event: event => write(() => parent.event(event)),
+    flush() {
+      while (queue.length) {
+        const fn = queue.shift();
+        fn?.();
+      }
+      parent.flush();
+    },
+  };
+}
+
+/**
+ * Converts a duration returned by `process.hrtime` to milliseconds.
+ */
+export function toMilliseconds([seconds, nanoseconds]: [number, number]): number {
+  return Math.round(seconds * 1e3 + nanoseconds / 1e6);
+}
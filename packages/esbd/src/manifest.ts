@@ -0,0 +1,162 @@
+import type { BuildOptions, Metafile } from 'esbuild';
+import fs from 'fs';
+import path from 'path';
+import pc from 'picocolors';
+
+import type { HashAlgorithm, ResolvedEsbdConfig } from './config';
+import { calculateContentIntegrityHash, joinUrlPath } from './html-entry-point/utils';
+import type { IncrementalBuildResult } from './incremental-build';
+import type { Logger } from './log';
+
+export interface ManifestEntry {
+  /** JS output for the entry point. */
+  js: string[];
+  /** CSS outputs for the entry point, including CSS bundled from JS imports. */
+  css: string[];
+  /** Chunks that are statically imported by the entry point (directly or indirectly). */
+  imports: string[];
+  /** Files referenced by the entry point or its chunks, e.g., images and fonts. */
+  assets: string[];
+  /** Integrity hashes for each JS, CSS and imported chunk URL. */
+  integrity?: Record<string, string>;
+}
+
+export type Manifest = Record<string, ManifestEntry>;
+
+const ASSET_IMPORT_KINDS = new Set(['file-loader', 'url-token']);
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+function getEntries(entryPoints: BuildOptions['entryPoints']): [name: string, path: string][] {
+  if (!entryPoints) return [];
+  if (!Array.isArray(entryPoints)) return Object.entries(entryPoints);
+  return entryPoints.map(entry =>
+    typeof entry === 'object' ? [entry.out, entry.in] : [entry, entry],
+  );
+}
+
+interface CreateManifestOptions {
+  absWorkingDir: string;
+  integrity?: HashAlgorithm;
+  outdir: string;
+  publicPath?: string;
+}
+
+/**
+ * Maps each entry point in a build to the output files that are needed to load it.
+ */
+export function createManifest(
+  result: IncrementalBuildResult,
+  entryPoints: BuildOptions['entryPoints'],
+  { absWorkingDir, integrity, outdir, publicPath = '' }: CreateManifestOptions,
+): Manifest {
+  const { outputs } = result.metafile;
+  const absOutDir = path.resolve(absWorkingDir, outdir);
+  const contents = new Map(result.outputFiles.map(file => [file.path, file.contents]));
+
+  const outputsByEntryPoint = new Map<string, [string, Metafile['outputs'][string]]>();
+  for (const [outputPath, output] of Object.entries(outputs)) {
+    if (output.entryPoint) outputsByEntryPoint.set(output.entryPoint, [outputPath, output]);
+  }
+
+  const toUrl = (outputPath: string) =>
+    joinUrlPath(
+      publicPath,
+      toPosix(path.relative(absOutDir, path.resolve(absWorkingDir, outputPath))),
+    );
+
+  const manifest: Manifest = {};
+  for (const [name, entryPath] of getEntries(entryPoints)) {
+    const entryPoint = toPosix(
+      path.relative(absWorkingDir, path.resolve(absWorkingDir, entryPath)),
+    );
+    const match = outputsByEntryPoint.get(entryPoint);
+    if (!match) continue;
+
+    const [outputPath, output] = match;
+    const js: string[] = [];
+    const css: string[] = [];
+    const imports = new Set<string>();
+    const assets = new Set<string>();
+
+    if (outputPath.endsWith('.css')) css.push(outputPath);
+    else js.push(outputPath);
+    if (output.cssBundle) css.push(output.cssBundle);
+
+    // Static imports are followed transitively because every chunk in the
+    // chain must be loaded before the entry point can run
+    const queue = [outputPath, ...css];
+    const visited = new Set(queue);
+    while (queue.length) {
+      const current = queue.shift()!;
+      for (const { kind, path: importPath, external } of outputs[current]?.imports ?? []) {
+        if (external || !outputs[importPath]) continue;
+        if (ASSET_IMPORT_KINDS.has(kind)) {
+          assets.add(importPath);
+        } else if (kind === 'import-statement' && !visited.has(importPath)) {
+          visited.add(importPath);
+          imports.add(importPath);
+          queue.push(importPath);
+        }
+      }
+    }
+
+    const entry: ManifestEntry = {
+      js: js.map(toUrl),
+      css: css.map(toUrl),
+      imports: Array.from(imports, toUrl),
+      assets: Array.from(assets, toUrl),
+    };
+
+    if (integrity) {
+      entry.integrity = {};
+      for (const file of [...js, ...css, ...imports]) {
+        const fileContents = contents.get(path.resolve(absWorkingDir, file));
+        if (fileContents) {
+          entry.integrity[toUrl(file)] = calculateContentIntegrityHash(fileContents, integrity);
+        }
+      }
+    }
+
+    manifest[name] = entry;
+  }
+
+  return manifest;
+}
+
+/**
+ * Returns a factory for result handlers that collect manifest entries from the
+ * builds of a configuration and write a combined manifest after each of them completes.
+ */
+export function manifestWriter(config: ResolvedEsbdConfig, logger: Logger) {
+  const manifestFile = typeof config.manifest === 'string' ? config.manifest : 'manifest.json';
+  const manifestPath = path.resolve(config.absWorkingDir, config.outdir, manifestFile);
+  const manifests = new Map<string, Manifest>();
+  let pending = Promise.resolve();
+
+  return (kind: string) =>
+    (result: IncrementalBuildResult, options: BuildOptions): Promise<void> => {
+      if (result.errors.length) return pending;
+      manifests.set(
+        kind,
+        createManifest(result, options.entryPoints, {
+          absWorkingDir: config.absWorkingDir,
+          integrity: config.integrity,
+          outdir: config.outdir,
+          publicPath: options.publicPath,
+        }),
+      );
+      const manifest: Manifest = Object.assign({}, ...manifests.values());
+
+      pending = pending
+        .then(async () => {
+          await fs.promises.mkdir(path.dirname(manifestPath), { recursive: true });
+          await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+          logger.info(pc.gray(`Wrote ${path.relative(process.cwd(), manifestPath)}`));
+        })
+        .catch(e => logger.error(`Unable to write manifest: ${e}`));
+      return pending;
+    };
+}
@@ -0,0 +1,98 @@
+import type { Plugin } from 'esbuild';
+
+import type { BuildMode, CommandName, EsbdBaseConfig, EsbdConfig } from './config';
+
+// Arrays that are concatenated instead of replaced when configurations are merged
+const CONCATENATED_OPTIONS = new Set(['copy', 'external', 'inject', 'plugins']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function mergeValues(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) merged[key] = mergeValues(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Appends plugins to the base plugins. A plugin with the same name as a base
+ * plugin replaces it in place.
+ */
+function mergePlugins(base: Plugin[], override: Plugin[]): Plugin[] {
+  const merged = [...base];
+  for (const plugin of override) {
+    const index = merged.findIndex(p => p.name === plugin.name);
+    if (index >= 0) {
+      merged[index] = plugin;
+    } else {
+      merged.push(plugin);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merges the options of `override` into `base`. Objects are merged deeply,
+ * `plugins`, `copy`, `external` and `inject` are concatenated and any other
+ * values (including `entryPoints`) replace the value of `base`.
+ */
+export function mergeConfigs<T extends EsbdBaseConfig>(base: EsbdBaseConfig, override: T): T {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = merged[key];
+    if (value === undefined) continue;
+
+    if (key === 'plugins' && Array.isArray(baseValue)) {
+      merged[key] = mergePlugins(baseValue, value as Plugin[]);
+    } else if (CONCATENATED_OPTIONS.has(key) && Array.isArray(baseValue) && Array.isArray(value)) {
+      merged[key] = [...baseValue, ...value];
+    } else if (key === 'entryPoints') {
+      merged[key] = value;
+    } else {
+      merged[key] = mergeValues(baseValue, value);
+    }
+  }
+  return merged as T;
+}
+
+function flattenConfig(
+  config: EsbdBaseConfig,
+  mode: BuildMode,
+  command: CommandName,
+  ancestors: EsbdBaseConfig[],
+): EsbdBaseConfig {
+  if (ancestors.includes(config)) {
+    throw new Error('A configuration cannot extend itself');
+  }
+
+  const { commands, extends: bases = [], modes, ...options } = config;
+  const layers = [
+    ...(Array.isArray(bases) ? bases : [bases]).map(base =>
+      flattenConfig(base, mode, command, [...ancestors, config]),
+    ),
+    options,
+    modes?.[mode] ?? {},
+    commands?.[command] ?? {},
+  ];
+  return layers.reduce<EsbdBaseConfig>((merged, layer) => mergeConfigs(merged, layer), {});
+}
+
+/**
+ * Applies the `extends`, `modes` and `commands` options of each configuration
+ * for the given mode and command.
+ */
+export function applyConfigOverrides<T extends EsbdConfig | EsbdConfig[]>(
+  configResult: T,
+  mode: BuildMode,
+  command: CommandName,
+): T {
+  const apply = (config: EsbdConfig) => flattenConfig(config, mode, command, []) as EsbdConfig;
+  return (Array.isArray(configResult) ? configResult.map(apply) : apply(configResult)) as T;
+}
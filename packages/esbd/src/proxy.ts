@@ -0,0 +1,189 @@
+import type { IncomingMessage, OutgoingHttpHeaders, RequestOptions, ServerResponse } from 'http';
+import http from 'http';
+import https from 'https';
+import pc from 'picocolors';
+import type { Duplex } from 'stream';
+import { URL } from 'url';
+
+import type { ProxyOptions } from './config';
+import type { Logger } from './log';
+
+interface ProxyRule extends ProxyOptions {
+  context: string;
+  targetUrl: URL;
+}
+
+export interface ProxyHandler {
+  /**
+   * Forwards the request if it matches a proxy rule.
+   *
+   * @returns `true` if the request was proxied
+   */
+  handleRequest(req: IncomingMessage, res: ServerResponse): boolean;
+
+  /**
+   * Forwards a WebSocket upgrade request if it matches a proxy rule with `ws` enabled.
+   *
+   * @returns `true` if the upgrade was proxied
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean;
+}
+
+function rewritePath(rule: ProxyRule, pathname: string): string {
+  const { pathRewrite } = rule;
+  if (!pathRewrite) return pathname;
+  if (typeof pathRewrite === 'function') return pathRewrite(pathname);
+
+  let rewritten = pathname;
+  for (const [pattern, replacement] of Object.entries(pathRewrite)) {
+    rewritten = rewritten.replace(new RegExp(pattern), replacement);
+  }
+  return rewritten;
+}
+
+function getRequestOptions(rule: ProxyRule, req: IncomingMessage): RequestOptions {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const basePath = rule.targetUrl.pathname.replace(/\/$/, '');
+  const targetPath = basePath + rewritePath(rule, url.pathname) + url.search;
+
+  const headers: OutgoingHttpHeaders = { ...req.headers, ...rule.headers };
+  if (rule.changeOrigin) headers.host = rule.targetUrl.host;
+
+  const remoteAddress = req.socket.remoteAddress;
+  if (remoteAddress) {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    headers['x-forwarded-for'] = forwardedFor ? `${forwardedFor}, ${remoteAddress}` : remoteAddress;
+  }
+  if (req.headers.host) headers['x-forwarded-host'] ??= req.headers.host;
+
+  return {
+    headers,
+    hostname: rule.targetUrl.hostname,
+    method: req.method,
+    path: targetPath,
+    port: rule.targetUrl.port,
+    protocol: rule.targetUrl.protocol,
+  };
+}
+
+/**
+ * Returns `true` if `pathname` is `context` or below it, so that "/api" matches
+ * "/api" and "/api/users" but not "/apiary".
+ */
+function matchesContext(pathname: string, context: string): boolean {
+  if (!pathname.startsWith(context)) return false;
+  return (
+    context.endsWith('/') || pathname.length === context.length || pathname[context.length] === '/'
+  );
+}
+
+function request(options: RequestOptions) {
+  return options.protocol === 'https:' ? https.request(options) : http.request(options);
+}
+
+/**
+ * Creates a handler that forwards requests matching the configured
+ * path prefixes to other servers.
+ *
+ * Rules are matched against the request path in order of decreasing
+ * prefix length, so more specific prefixes take precedence.
+ */
+export function createProxyHandler(
+  proxy: Record<string, string | ProxyOptions>,
+  logger: Logger,
+): ProxyHandler {
+  const rules: ProxyRule[] = Object.entries(proxy)
+    .map(([context, value]) => {
+      const options = typeof value === 'string' ? { target: value } : value;
+      return { ...options, context, targetUrl: new URL(options.target) };
+    })
+    .sort((a, b) => b.context.length - a.context.length);
+
+  for (const rule of rules) {
+    logger.info(`Proxying ${pc.cyan(rule.context)} to ${pc.cyan(rule.target)}`);
+  }
+
+  function findRule(req: IncomingMessage): ProxyRule | undefined {
+    if (!req.url) return undefined;
+    const { pathname } = new URL(req.url, 'http://localhost');
+    return rules.find(rule => matchesContext(pathname, rule.context));
+  }
+
+  return {
+    handleRequest(req, res) {
+      const rule = findRule(req);
+      if (!rule) return false;
+
+      const options = getRequestOptions(rule, req);
+      logger.debug(pc.gray(`Proxying ${req.method} ${req.url} to ${rule.target}${options.path}`));
+
+      const proxyReq = request(options);
+      proxyReq.on('response', proxyRes => {
+        res.writeHead(proxyRes.statusCode ?? 502, proxyRes.statusMessage, proxyRes.headers);
+        proxyRes.pipe(res);
+      });
+
+      // Stop the upstream request if the client goes away before the response is complete
+      let clientClosed = false;
+      res.on('close', () => {
+        if (res.writableFinished) return;
+        clientClosed = true;
+        proxyReq.destroy();
+      });
+
+      proxyReq.on('error', err => {
+        if (clientClosed) return;
+        logger.error(`Proxy error for ${req.method} ${req.url}: ${err.message}`);
+        if (!res.headersSent) {
+          res.writeHead(502, { 'Content-Type': 'text/plain' });
+        }
+        res.end('502 Bad Gateway\n');
+      });
+
+      req.pipe(proxyReq);
+      return true;
+    },
+
+    handleUpgrade(req, socket, head) {
+      const rule = findRule(req);
+      if (!rule?.ws) return false;
+
+      const options = getRequestOptions(rule, req);
+      logger.debug(pc.gray(`Proxying WebSocket ${req.url} to ${rule.target}${options.path}`));
+
+      const proxyReq = request(options);
+      proxyReq.on('upgrade', (proxyRes, proxySocket, proxyHead) => {
+        const headerLines = Object.entries(proxyRes.headers).flatMap(([key, value]) =>
+          Array.isArray(value) ? value.map(v => `${key}: ${v}`) : [`${key}: ${value}`],
+        );
+        socket.write(
+          [`HTTP/1.1 101 ${proxyRes.statusMessage ?? 'Switching Protocols'}`, ...headerLines]
+            .concat('', '')
+            .join('\r\n'),
+        );
+
+        if (proxyHead.length) socket.write(proxyHead);
+        if (head.length) proxySocket.write(head);
+
+        proxySocket.on('error', () => socket.destroy());
+        socket.on('error', () => proxySocket.destroy());
+        proxySocket.pipe(socket).pipe(proxySocket);
+      });
+      proxyReq.on('response', proxyRes => {
+        // The target refused to upgrade the connection
+        socket.end(`HTTP/1.1 ${proxyRes.statusCode} ${proxyRes.statusMessage}\r\n\r\n`);
+      });
+      proxyReq.on('error', err => {
+        if (socket.destroyed) return;
+        logger.error(`Proxy error for WebSocket ${req.url}: ${err.message}`);
+        socket.destroy();
+      });
+
+      // Stop the upstream request if the client goes away before the upgrade completes
+      socket.on('close', () => proxyReq.destroy());
+
+      proxyReq.end();
+      return true;
+    },
+  };
+}
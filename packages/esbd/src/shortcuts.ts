@@ -0,0 +1,109 @@
+import type { TypecheckRunner } from '@jgoz/esbuild-plugin-typecheck';
+import execa from 'execa';
+import Graceful from 'node-graceful';
+import pc from 'picocolors';
+
+import type { IncrementalBuildContext } from './incremental-build';
+import type { Logger } from './log';
+
+export interface Shortcut {
+  key: string;
+  description: string;
+  action: () => unknown;
+}
+
+const CTRL_C = '\u0003';
+
+/**
+ * Returns `true` if keyboard shortcuts can be read from the terminal.
+ */
+export function isInteractive(): boolean {
+  return !!process.stdin.isTTY && !!process.stdout.isTTY;
+}
+
+/**
+ * Returns shortcuts for rebuilding `contexts` and re-running type checks.
+ */
+export function buildShortcuts(
+  contexts: IncrementalBuildContext[],
+  typecheckRunners: TypecheckRunner[],
+): Shortcut[] {
+  const shortcuts: Shortcut[] = [
+    {
+      key: 'r',
+      description: 'rebuild',
+      // Build errors are reported by the build itself
+      action: () => Promise.all(contexts.map(context => context.rebuild().catch(() => {}))),
+    },
+  ];
+  if (typecheckRunners.length) {
+    shortcuts.push({
+      key: 't',
+      description: 'typecheck',
+      action: () => typecheckRunners.forEach(runner => runner.start()),
+    });
+  }
+  return shortcuts;
+}
+
+/**
+ * Opens a URL in the default browser.
+ */
+export function openUrl(url: string, logger: Logger): void {
+  const [command, args] =
+    process.platform === 'darwin'
+      ? ['open', [url]]
+      : process.platform === 'win32'
+        ? ['cmd', ['/c', 'start', '""', url]]
+        : ['xdg-open', [url]];
+
+  const child = execa(command, args, { detached: true, stdio: 'ignore' });
+  child.catch(() => logger.warn(`Unable to open ${url} in a browser`));
+  child.unref();
+}
+
+/**
+ * Reads single key presses from the terminal and runs the matching shortcut.
+ * A help line listing the shortcuts is printed when they are enabled.
+ *
+ * Returns a function that restores the terminal, or `undefined` if stdin or
+ * stdout is not a TTY.
+ */
+export function enableShortcuts(shortcuts: Shortcut[], logger: Logger): (() => void) | undefined {
+  if (!isInteractive()) return undefined;
+
+  const allShortcuts: Shortcut[] = [
+    ...shortcuts,
+    { key: 'c', description: 'clear', action: () => console.clear() },
+    { key: 'q', description: 'quit', action: () => Graceful.exit() },
+  ];
+
+  function onData(key: string) {
+    // Raw mode prevents the terminal from sending SIGINT
+    if (key === CTRL_C) {
+      Graceful.exit(0, 'SIGINT');
+      return;
+    }
+
+    const shortcut = allShortcuts.find(s => s.key === key);
+    if (!shortcut) return;
+
+    Promise.resolve()
+      .then(shortcut.action)
+      .catch(e => logger.error(e instanceof Error ? e.message : String(e)));
+  }
+
+  process.stdin.setRawMode(true);
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', onData);
+  process.stdin.resume();
+
+  const help = allShortcuts.map(s => `${pc.bold(s.key)} ${s.description}`).join(pc.gray(' · '));
+  logger.info(pc.gray(`Shortcuts: `) + help);
+
+  return () => {
+    process.stdin.off('data', onData);
+    process.stdin.setRawMode(false);
+    process.stdin.pause();
+  };
+}
@@ -1,34 +1,78 @@
-import type { Plugin } from 'esbuild';
+import type { Message, Plugin } from 'esbuild';
 import pc from 'picocolors';
 
 import type { Logger, TimedSpinner } from './log';
+import { toMilliseconds } from './log';
+
+export interface BuildSummary {
+  name?: string;
+  entryPoints?: string[];
+  duration: number;
+  errors: number;
+  warnings: number;
+}
 
 export function timingPlugin(
   logger: Logger,
   name: string | undefined,
-  progressMessage = 'Building…',
+  entryNames?: string[],
+  onSummary?: (summary: BuildSummary) => void,
 ): Plugin {
-  const buildName = name ? `${name} ` : '';
+  const displayName = name
+    ? entryNames
+      ? `"${name}" (${entryNames.join(', ')})`
+      : `"${name}"`
+    : entryNames?.join(', ');
+  const buildName = displayName ? `${displayName} ` : '';
+
+  function logMessages(kind: 'error' | 'warning', messages: Message[]) {
+    for (const message of messages) {
+      logger.event({
+        type: 'build-message',
+        name,
+        kind,
+        text: message.text,
+        pluginName: message.pluginName || undefined,
+        location: message.location,
+      });
+    }
+  }
 
   let spinner: TimedSpinner;
   return {
     name: 'esbd-timing',
     setup(build) {
       build.onStart(() => {
-        spinner = logger.spin(progressMessage);
+        spinner = logger.spin('Building…');
+        logger.event({ type: 'build-start', name, entryPoints: entryNames });
       });
       build.onEnd(result => {
         if (!spinner) return;
 
-        const [time] = spinner.stop();
-        const numErrors = result.errors?.length ?? 0;
-        const numWarnings = result.warnings?.length ?? 0;
-        const log = numErrors ? logger.error : numWarnings ? logger.warn : logger.success;
-        log(
-          `Finished ${buildName}with ${pc.white(numErrors)} error(s) and ${pc.white(
-            numWarnings,
-          )} warning(s) in ${pc.gray(time)}`,
-        );
+        const [time, duration] = spinner.stop();
+        const summary: BuildSummary = {
+          name,
+          entryPoints: entryNames,
+          duration: toMilliseconds(duration),
+          errors: result.errors?.length ?? 0,
+          warnings: result.warnings?.length ?? 0,
+        };
+        onSummary?.(summary);
+
+        logMessages('error', result.errors ?? []);
+        logMessages('warning', result.warnings ?? []);
+        logger.event({ type: 'build-end', ...summary });
+
+        if (logger.logFormat === 'text') {
+          const { errors, warnings } = summary;
+          const log = errors ? logger.error : warnings ? logger.warn : logger.success;
+          log(
+            `Finished ${buildName}with ${pc.white(errors)} error(s) and ${pc.white(
+              warnings,
+            )} warning(s) in ${pc.gray(time)}`,
+          );
+        }
+        logger.flush();
       });
     },
   };
@@ -0,0 +1,111 @@
+import type {
+  EsbuildDiagnosticMessage,
+  Logger as TypecheckLogger,
+  TypecheckRunner as TypecheckRunnerCls,
+  WorkerMessage,
+} from '@jgoz/esbuild-plugin-typecheck';
+import path from 'path';
+
+import type { ResolvedEsbdConfig, TsBuildMode } from './config';
+import type { Logger } from './log';
+import { createDerivedLogger } from './log';
+
+interface TypecheckOptions {
+  /** Label messages with the names of the configurations that share each tsconfig. */
+  labeled?: boolean;
+  logger: Logger;
+  omitStartLog?: boolean;
+  tsBuildMode?: TsBuildMode;
+  watch: boolean;
+}
+
+// Results are reported as events in JSON mode
+const SILENT_LOGGER: TypecheckLogger = {
+  info() {},
+  warn() {},
+  error() {},
+  success() {},
+};
+
+/**
+ * Reports the results of each type check as events, in addition to the
+ * messages that are logged by the runner.
+ */
+function reportTypecheckEvents(runner: TypecheckRunnerCls, logger: Logger) {
+  let diagnostics: EsbuildDiagnosticMessage[] = [];
+
+  runner.worker.on('message', (msg: WorkerMessage) => {
+    switch (msg.type) {
+      case 'start':
+        diagnostics = [];
+        logger.event({ type: 'typecheck-start' });
+        break;
+      case 'summary':
+      case 'diagnostic':
+        diagnostics.push(...msg.diagnostics);
+        break;
+      case 'done':
+        for (const { type, message } of diagnostics) {
+          logger.event({
+            type: 'typecheck-message',
+            kind: type,
+            text: message.text,
+            location: message.location,
+          });
+        }
+        logger.event({
+          type: 'typecheck-end',
+          duration: Math.round(msg.duration),
+          errors: msg.errorCount,
+          warnings: diagnostics.filter(d => d.type === 'warning').length,
+        });
+        break;
+      case 'build':
+        break;
+    }
+  });
+}
+
+/**
+ * Starts one TypeScript type checker for each distinct tsconfig referenced by `configs`.
+ */
+export function startTypecheck(
+  configs: ResolvedEsbdConfig[],
+  { labeled, logger, omitStartLog, tsBuildMode, watch }: TypecheckOptions,
+): TypecheckRunnerCls[] {
+  const TypecheckRunner: typeof TypecheckRunnerCls =
+    require('@jgoz/esbuild-plugin-typecheck').TypecheckRunner;
+
+  // Configurations that share a tsconfig are checked together
+  const groups = new Map<string, ResolvedEsbdConfig[]>();
+  for (const config of configs) {
+    const configPath = config.tsconfig
+      ? path.resolve(config.absWorkingDir, config.tsconfig)
+      : config.absWorkingDir;
+    groups.set(configPath, [...(groups.get(configPath) ?? []), config]);
+  }
+
+  const checks = Array.from(groups.values(), group => {
+    const names = group.flatMap(config => (config.name ? [config.name] : []));
+    const runnerLogger =
+      labeled && names.length ? createDerivedLogger(logger, names.join(', ')) : logger;
+
+    return new TypecheckRunner({
+      absWorkingDir: group[0].absWorkingDir,
+      build: tsBuildMode ? true : undefined,
+      buildMode: tsBuildMode,
+      configFile: group[0].tsconfig,
+      logger: logger.logFormat === 'json' ? SILENT_LOGGER : runnerLogger,
+      omitStartLog,
+      watch,
+    });
+  });
+
+  checks.forEach(runner => {
+    reportTypecheckEvents(runner, logger);
+    runner.logger.info('Type checking enabled');
+    runner.start();
+  });
+
+  return checks;
+}
@@ -0,0 +1,665 @@
+import type { BuildOptions } from 'esbuild';
+import path from 'path';
+import pc from 'picocolors';
+import { isDeepStrictEqual } from 'util';
+
+import type { EsbdConfig, EsbdConfigResult, EsbdSpecificOptions } from './config';
+import { BUILD_MODES, COMMAND_NAMES } from './config';
+import { LOG_LEVELS } from './log';
+
+export interface ConfigProblem {
+  /** Path of the offending option, e.g., `config[1].nodeDev.main`. */
+  path: string;
+  message: string;
+  suggestion?: string;
+  /** Warnings are reported, but don't prevent esbd from running. */
+  severity?: 'warning';
+}
+
+interface Schema {
+  /** Description of the expected value, used in error messages. */
+  type: string;
+  validate(value: unknown, keyPath: string, problems: ConfigProblem[]): void;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'an object';
+  return typeof value === 'function' ? 'a function' : String(value);
+}
+
+function primitive(type: 'boolean' | 'function' | 'number' | 'string'): Schema {
+  return {
+    type: type === 'function' ? 'a function' : `a ${type}`,
+    validate(value, keyPath, problems) {
+      if (typeof value !== type) {
+        problems.push({
+          path: keyPath,
+          message: `expected ${this.type} but received ${describeValue(value)}`,
+        });
+      }
+    },
+  };
+}
+
+const any: Schema = { type: 'any value', validate() {} };
+const boolean = primitive('boolean');
+const func = primitive('function');
+const number = primitive('number');
+const string = primitive('string');
+
+export function isConfigWarning(problem: ConfigProblem): boolean {
+  return problem.severity === 'warning';
+}
+
+function unsupported(suggestion: string): Schema {
+  return {
+    type: 'undefined',
+    validate(_, keyPath, problems) {
+      problems.push({ path: keyPath, message: 'is not supported', suggestion });
+    },
+  };
+}
+
+function oneOf(...values: readonly string[]): Schema {
+  return {
+    type: `one of ${values.map(v => JSON.stringify(v)).join(', ')}`,
+    validate(value, keyPath, problems) {
+      if (typeof value === 'string' && values.includes(value)) return;
+      const closest = typeof value === 'string' ? findClosest(value, values) : undefined;
+      problems.push({
+        path: keyPath,
+        message: `expected ${this.type} but received ${describeValue(value)}`,
+        suggestion: closest && `Did you mean "${closest}"?`,
+      });
+    },
+  };
+}
+
+function arrayOf(item: Schema): Schema {
+  return {
+    type: `an array of ${item.type.replace(/^an? /, '')}s`,
+    validate(value, keyPath, problems) {
+      if (!Array.isArray(value)) {
+        problems.push({
+          path: keyPath,
+          message: `expected ${this.type} but received ${describeValue(value)}`,
+        });
+        return;
+      }
+      value.forEach((v, i) => item.validate(v, `${keyPath}[${i}]`, problems));
+    },
+  };
+}
+
+function recordOf(item: Schema): Schema {
+  return {
+    type: 'an object',
+    validate(value, keyPath, problems) {
+      if (!isObject(value)) {
+        problems.push({
+          path: keyPath,
+          message: `expected ${this.type} but received ${describeValue(value)}`,
+        });
+        return;
+      }
+      for (const [key, v] of Object.entries(value)) {
+        item.validate(v, formatKeyPath(keyPath, key), problems);
+      }
+    },
+  };
+}
+
+function objectOf(shape: Record<string, Schema>, required: string[] = []): Schema {
+  return {
+    type: 'an object',
+    validate(value, keyPath, problems) {
+      if (!isObject(value)) {
+        problems.push({
+          path: keyPath,
+          message: `expected ${this.type} but received ${describeValue(value)}`,
+        });
+        return;
+      }
+      validateShape(value, shape, required, keyPath, problems);
+    },
+  };
+}
+
+function union(...schemas: Schema[]): Schema {
+  return {
+    type: schemas.map(schema => schema.type).join(' or '),
+    validate(value, keyPath, problems) {
+      const results = schemas.map(schema => {
+        const schemaProblems: ConfigProblem[] = [];
+        schema.validate(value, keyPath, schemaProblems);
+        return schemaProblems;
+      });
+      const valid = results.find(result => result.every(isConfigWarning));
+      if (valid) {
+        problems.push(...valid);
+        return;
+      }
+
+      // Report nested problems if the value has the right shape for one of the schemas
+      const nested = results.find(result => result.every(p => p.path !== keyPath));
+      if (nested) {
+        problems.push(...nested);
+      } else {
+        problems.push({
+          path: keyPath,
+          message: `expected ${this.type} but received ${describeValue(value)}`,
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Defers creating a schema until it's used, for schemas that refer to themselves.
+ */
+function lazy(type: string, getSchema: () => Schema): Schema {
+  return {
+    type,
+    validate: (value, keyPath, problems) => getSchema().validate(value, keyPath, problems),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatKeyPath(parent: string, key: string): string {
+  const part = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+  if (!parent) return part;
+  return part === key ? `${parent}.${key}` : `${parent}[${part}]`;
+}
+
+function validateShape(
+  value: Record<string, unknown>,
+  shape: Record<string, Schema>,
+  required: string[],
+  keyPath: string,
+  problems: ConfigProblem[],
+) {
+  const knownKeys = Object.keys(shape);
+  for (const key of required) {
+    if (value[key] === undefined) {
+      problems.push({ path: formatKeyPath(keyPath, key), message: 'is required' });
+    }
+  }
+  for (const [key, v] of Object.entries(value)) {
+    const schema = shape[key] as Schema | undefined;
+    if (!schema && key in UNSUPPORTED_HINTS) {
+      problems.push({
+        path: formatKeyPath(keyPath, key),
+        message: 'is not supported',
+        suggestion: UNSUPPORTED_HINTS[key],
+      });
+    } else if (!schema) {
+      // The key may be an option of a newer esbuild version, so leave it to esbuild to reject
+      const closest = findClosest(key, knownKeys);
+      problems.push({
+        path: formatKeyPath(keyPath, key),
+        message: 'is not a known option',
+        suggestion: closest && `Did you mean "${closest}"?`,
+        severity: 'warning',
+      });
+    } else if (v !== undefined) {
+      schema.validate(v, formatKeyPath(keyPath, key), problems);
+    }
+  }
+}
+
+const sizeThresholds = objectOf({
+  raw: number,
+  gzip: number,
+  brotli: number,
+  increase: union(number, string),
+});
+
+const respawnPolicy = objectOf({
+  maxRestarts: number,
+  window: number,
+  backoff: number,
+  maxBackoff: number,
+  exitCodes: arrayOf(number),
+});
+
+// Proxy targets are parsed when the server starts, so invalid URLs are reported before building
+const proxyTarget: Schema = {
+  type: 'an http or https URL',
+  validate(value, keyPath, problems) {
+    if (typeof value === 'string') {
+      try {
+        if (['http:', 'https:'].includes(new URL(value).protocol)) return;
+      } catch {
+        // Reported below
+      }
+    }
+    problems.push({
+      path: keyPath,
+      message: `expected ${this.type} but received ${describeValue(value)}`,
+      suggestion: 'Use an absolute URL, e.g., "http://localhost:3000"',
+    });
+  },
+};
+
+const proxyOptions = objectOf(
+  {
+    target: proxyTarget,
+    changeOrigin: boolean,
+    headers: recordOf(string),
+    pathRewrite: union(recordOf(string), func),
+    ws: boolean,
+  },
+  ['target'],
+);
+
+// Plugins may have other properties, so only the ones that esbuild uses are checked
+const plugin: Schema = {
+  type: 'a plugin',
+  validate(value, keyPath, problems) {
+    if (!isObject(value)) {
+      problems.push({
+        path: keyPath,
+        message: `expected ${this.type} but received ${describeValue(value)}`,
+      });
+      return;
+    }
+    string.validate(value.name, `${keyPath}.name`, problems);
+    func.validate(value.setup, `${keyPath}.setup`, problems);
+  },
+};
+
+// esbd always bundles entry points, so `bundle: true` is accepted as a no-op
+const bundle: Schema = {
+  type: 'a boolean',
+  validate(value, keyPath, problems) {
+    boolean.validate(value, keyPath, problems);
+    if (value === false) {
+      problems.push({
+        path: keyPath,
+        message: 'is ignored',
+        suggestion: 'Remove "bundle"; esbd always bundles entry points',
+        severity: 'warning',
+      });
+    }
+  },
+};
+
+const configOverrides = lazy('an object', () => objectOf(OVERRIDE_SHAPE));
+const baseConfig = lazy('an object', () => objectOf(BASE_SHAPE));
+
+const ESBD_OPTIONS: { [K in keyof Required<EsbdSpecificOptions>]: Schema } = {
+  budgets: recordOf(objectOf({ warning: sizeThresholds, error: sizeThresholds })),
+  budgetSnapshot: string,
+  cleanOutdir: boolean,
+  commands: objectOf(Object.fromEntries(COMMAND_NAMES.map(name => [name, configOverrides]))),
+  compress: union(
+    boolean,
+    objectOf({
+      formats: arrayOf(oneOf('brotli', 'gzip')),
+      threshold: union(number, recordOf(number)),
+    }),
+  ),
+  copy: arrayOf(arrayOf(string)),
+  cssChunkFilter: func,
+  envPrefix: string,
+  extends: union(baseConfig, arrayOf(baseConfig)),
+  ignoreAssets: boolean,
+  integrity: oneOf('sha256', 'sha384', 'sha512'),
+  manifest: union(boolean, string),
+  modes: recordOf(configOverrides),
+  name: string,
+  nodeDev: objectOf({
+    main: string,
+    processes: recordOf(objectOf({ entry: string, args: arrayOf(string) })),
+    restartSignal: oneOf('SIGINT', 'SIGTERM', 'SIGUSR2'),
+    killTimeout: number,
+    waitForReady: boolean,
+    respawn: union(boolean, respawnPolicy),
+    waitForChange: boolean,
+  }),
+  proxy: recordOf({
+    type: `${proxyTarget.type} or an object`,
+    validate: (value, keyPath, problems) =>
+      (isObject(value) ? proxyOptions : proxyTarget).validate(value, keyPath, problems),
+  }),
+};
+
+// Only the options that esbd relies on are checked in detail
+const ESBUILD_OPTIONS: { [K in keyof Required<BuildOptions>]: Schema } = {
+  absWorkingDir: {
+    type: 'an absolute path',
+    validate(value, keyPath, problems) {
+      string.validate(value, keyPath, problems);
+      if (typeof value === 'string' && !path.isAbsolute(value)) {
+        problems.push({
+          path: keyPath,
+          message: `expected ${this.type} but received ${describeValue(value)}`,
+          suggestion:
+            'Use path.resolve(__dirname, ...) or omit it to use the directory of the config file',
+        });
+      }
+    },
+  },
+  alias: recordOf(string),
+  allowOverwrite: boolean,
+  assetNames: string,
+  banner: recordOf(string),
+  bundle,
+  charset: any,
+  chunkNames: string,
+  color: boolean,
+  conditions: arrayOf(string),
+  define: recordOf(string),
+  drop: any,
+  dropLabels: arrayOf(string),
+  entryNames: string,
+  entryPoints: union(
+    arrayOf(union(string, objectOf({ in: string, out: string }))),
+    recordOf(string),
+  ),
+  external: arrayOf(string),
+  footer: recordOf(string),
+  format: oneOf('iife', 'cjs', 'esm'),
+  globalName: string,
+  ignoreAnnotations: boolean,
+  inject: arrayOf(string),
+  jsx: oneOf('transform', 'preserve', 'automatic'),
+  jsxDev: boolean,
+  jsxFactory: string,
+  jsxFragment: string,
+  jsxImportSource: string,
+  jsxSideEffects: boolean,
+  keepNames: boolean,
+  legalComments: any,
+  lineLimit: number,
+  loader: recordOf(string),
+  logLevel: oneOf(...LOG_LEVELS),
+  logLimit: number,
+  logOverride: any,
+  mainFields: arrayOf(string),
+  mangleCache: any,
+  mangleProps: any,
+  mangleQuoted: boolean,
+  metafile: any,
+  minify: boolean,
+  minifyIdentifiers: boolean,
+  minifySyntax: boolean,
+  minifyWhitespace: boolean,
+  nodePaths: arrayOf(string),
+  outbase: string,
+  outdir: string,
+  outExtension: recordOf(string),
+  outfile: unsupported('Use "outdir" instead; esbd writes every output to the output directory'),
+  packages: oneOf('bundle', 'external'),
+  platform: oneOf('browser', 'node', 'neutral'),
+  plugins: arrayOf(plugin),
+  preserveSymlinks: boolean,
+  publicPath: string,
+  pure: arrayOf(string),
+  reserveProps: any,
+  resolveExtensions: arrayOf(string),
+  sourcemap: union(boolean, oneOf('linked', 'inline', 'external', 'both')),
+  sourceRoot: string,
+  sourcesContent: boolean,
+  splitting: boolean,
+  stdin: any,
+  supported: recordOf(boolean),
+  target: union(string, arrayOf(string)),
+  treeShaking: boolean,
+  tsconfig: string,
+  tsconfigRaw: union(string, recordOf(any)),
+  write: unsupported('Remove "write"; esbd writes output files itself'),
+};
+
+const CONFIG_SHAPE: Record<string, Schema> = { ...ESBUILD_OPTIONS, ...ESBD_OPTIONS };
+
+function omitKeys(shape: Record<string, Schema>, keys: string[]): Record<string, Schema> {
+  return Object.fromEntries(Object.entries(shape).filter(([key]) => !keys.includes(key)));
+}
+
+const BASE_SHAPE = omitKeys(CONFIG_SHAPE, ['name']);
+const OVERRIDE_SHAPE = omitKeys(CONFIG_SHAPE, ['commands', 'extends', 'modes', 'name']);
+
+// Entry points may be provided by a base configuration or by overrides
+function getRequiredKeys(config: Record<string, unknown>): string[] {
+  return config.extends || config.modes || config.commands ? [] : ['entryPoints'];
+}
+
+const UNSUPPORTED_HINTS: Record<string, string> = {
+  watch: 'Remove "watch" and use "build --watch", "serve" or "node-dev" instead',
+  buildModes: 'Declare custom modes with a "buildModes" export next to the configuration instead',
+  mode: 'Remove "mode" and pass "--mode" on the command line instead',
+};
+
+/**
+ * Returns the candidate that is most similar to `value`, if any are similar enough.
+ */
+export function findClosest(value: string, candidates: readonly string[]): string | undefined {
+  let closest: string | undefined;
+  let closestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance =
+      candidate.toLowerCase() === value.toLowerCase() ? 0 : editDistance(value, candidate);
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Checks that the keys of `modes` in a configuration and its bases are known build modes.
+ */
+function validateModeNames(
+  config: unknown,
+  modeNames: readonly string[],
+  keyPath: string,
+  problems: ConfigProblem[],
+) {
+  if (!isObject(config)) return;
+
+  if (isObject(config.modes)) {
+    for (const mode of Object.keys(config.modes)) {
+      if (modeNames.includes(mode)) continue;
+      const closest = findClosest(mode, modeNames);
+      problems.push({
+        path: formatKeyPath(`${keyPath}.modes`, mode),
+        message: 'is not a known build mode',
+        suggestion: closest
+          ? `Did you mean "${closest}"?`
+          : `Declare "${mode}" in "buildModes" to use it as a custom mode`,
+      });
+    }
+  }
+
+  if (Array.isArray(config.extends)) {
+    config.extends.forEach((base, i) =>
+      validateModeNames(base, modeNames, `${keyPath}.extends[${i}]`, problems),
+    );
+  } else {
+    validateModeNames(config.extends, modeNames, `${keyPath}.extends`, problems);
+  }
+}
+
+/**
+ * Checks custom build modes, which must be mapped to one of the built-in modes.
+ */
+export function validateBuildModes(buildModes: unknown): ConfigProblem[] {
+  if (buildModes === undefined) return [];
+
+  const problems: ConfigProblem[] = [];
+  recordOf(oneOf(...BUILD_MODES)).validate(buildModes, 'buildModes', problems);
+  if (!isObject(buildModes)) return problems;
+
+  for (const mode of Object.keys(buildModes)) {
+    const keyPath = formatKeyPath('buildModes', mode);
+    if ((BUILD_MODES as readonly string[]).includes(mode)) {
+      problems.push({
+        path: keyPath,
+        message: 'is a built-in mode and cannot be redefined',
+      });
+    } else if (!/^[\w-]+$/.test(mode)) {
+      problems.push({
+        path: keyPath,
+        message: 'must only contain letters, numbers, "_" and "-"',
+        suggestion: 'Mode names are used in the names of environment files, e.g., ".env.staging"',
+      });
+    }
+  }
+  return problems;
+}
+
+function getConfigPath(configResult: unknown, config: unknown): string {
+  return Array.isArray(configResult) ? `config[${configResult.indexOf(config)}]` : 'config';
+}
+
+/**
+ * Checks a configuration export against the supported options and returns
+ * every problem that was found.
+ *
+ * @param modeNames Build modes that may be used as keys of `modes`.
+ */
+export function validateConfigResult(
+  configResult: unknown,
+  modeNames: readonly string[] = BUILD_MODES,
+): ConfigProblem[] {
+  const problems: ConfigProblem[] = [];
+
+  if (!Array.isArray(configResult)) {
+    if (!isObject(configResult)) {
+      return [
+        {
+          path: 'config',
+          message: `expected an object or an array of objects but received ${describeValue(configResult)}`,
+        },
+      ];
+    }
+    validateShape(configResult, CONFIG_SHAPE, getRequiredKeys(configResult), 'config', problems);
+    validateModeNames(configResult, modeNames, 'config', problems);
+    return problems;
+  }
+
+  if (configResult.length === 0) {
+    return [{ path: 'config', message: 'must contain at least one configuration' }];
+  }
+
+  const names = new Map<string, number>();
+  configResult.forEach((config: unknown, i) => {
+    const keyPath = `config[${i}]`;
+    if (!isObject(config)) {
+      problems.push({
+        path: keyPath,
+        message: `expected an object but received ${describeValue(config)}`,
+      });
+      return;
+    }
+
+    validateShape(config, CONFIG_SHAPE, getRequiredKeys(config), keyPath, problems);
+    validateModeNames(config, modeNames, keyPath, problems);
+
+    if (typeof config.name !== 'string' || !config.name) {
+      problems.push({
+        path: `${keyPath}.name`,
+        message: 'is required for configurations in an array',
+        suggestion:
+          'Add a unique "name" so that the configuration can be selected from the command line',
+      });
+    } else if (names.has(config.name)) {
+      problems.push({
+        path: `${keyPath}.name`,
+        message: `"${config.name}" is already used by config[${names.get(config.name)}]`,
+        suggestion: 'Give each configuration a unique name',
+      });
+    } else {
+      names.set(config.name, i);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Checks that every configuration that will be served has an HTML entry point.
+ */
+export function validateServeConfigs(
+  configResult: EsbdConfigResult,
+  configs: EsbdConfig[],
+): ConfigProblem[] {
+  const problems = configs.flatMap(config => {
+    const entryPaths = Array.isArray(config.entryPoints)
+      ? config.entryPoints.map(entry => (typeof entry === 'object' ? entry.in : entry))
+      : Object.values(config.entryPoints);
+    if (entryPaths.some(entryPath => entryPath.endsWith('.html'))) return [];
+
+    return [
+      {
+        path: `${getConfigPath(configResult, config)}.entryPoints`,
+        message: '"serve" requires at least one HTML entry point',
+        suggestion:
+          'Add an HTML entry point (e.g., "index.html"), or use "build --watch" or "node-dev" for this configuration',
+      },
+    ];
+  });
+
+  // All configurations share one server, so each proxy context can only forward to one place
+  const proxyConfigs = new Map<string, EsbdConfig>();
+  for (const config of configs) {
+    for (const [context, options] of Object.entries(config.proxy ?? {})) {
+      const firstConfig = proxyConfigs.get(context);
+      if (!firstConfig) {
+        proxyConfigs.set(context, config);
+      } else if (!isDeepStrictEqual(firstConfig.proxy![context], options)) {
+        problems.push({
+          path: formatKeyPath(`${getConfigPath(configResult, config)}.proxy`, context),
+          message: `conflicts with the proxy for ${JSON.stringify(context)} in ${getConfigPath(
+            configResult,
+            firstConfig,
+          )}`,
+          suggestion: 'Define the proxy in only one configuration, or use the same options in each',
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Formats problems for display, one per line with an optional suggestion below.
+ * Problems that are all warnings are given a different heading.
+ */
+export function formatConfigProblems(
+  problems: ConfigProblem[],
+  color: boolean = pc.isColorSupported,
+): string {
+  const { bold, gray } = pc.createColors(color);
+  const warningsOnly = problems.every(isConfigWarning);
+  const noun = warningsOnly ? 'warning' : 'problem';
+  const count = problems.length === 1 ? `1 ${noun}` : `${problems.length} ${noun}s`;
+  const lines = problems.map(
+    ({ message, path: keyPath, suggestion }) =>
+      `  ${bold(keyPath)}: ${message}` + (suggestion ? `\n    ${gray(suggestion)}` : ''),
+  );
+  const heading = warningsOnly ? `Configuration has ${count}` : `Invalid configuration (${count})`;
+  return [`${heading}:`, ...lines].join('\n');
+}
@@ -0,0 +1,27 @@
+import type { BuildMode, ResolvedEsbdConfig } from './config';
+import { watchEnvFiles } from './env';
+import { getDefine } from './get-build-options';
+import type { IncrementalBuildContext } from './incremental-build';
+import type { Logger } from './log';
+
+interface WatchEnvOptions {
+  config: ResolvedEsbdConfig;
+  logger: Logger;
+  mode: BuildMode;
+}
+
+/**
+ * Watches environment files and recreates the esbuild context with updated
+ * `define` values when they change, if the configuration exposes environment
+ * variables to the bundle.
+ */
+export function watchPublicEnv(
+  context: IncrementalBuildContext,
+  { config, logger, mode }: WatchEnvOptions,
+): void {
+  if (!config.envPrefix || config.platform === 'node') return;
+
+  watchEnvFiles(config.absWorkingDir, mode, context.signal, logger, () =>
+    context.recreate({ define: getDefine(mode, config) }),
+  );
+}
@@ -0,0 +1,100 @@
+import type { BuildOptions } from 'esbuild';
+import type { FSWatcher } from 'fs';
+import { watch as fsWatch } from 'fs';
+import path from 'path';
+import pc from 'picocolors';
+
+import type { BuildMode, ResolvedEsbdConfig } from './config';
+import { getHtmlBuildOptions } from './get-build-options';
+import type { WriteTemplateOptions } from './html-entry-point';
+import { substituteDefines } from './html-entry-point/utils';
+import type { IncrementalBuildContext } from './incremental-build';
+import type { Logger } from './log';
+
+interface WatchTemplatesOptions {
+  config: ResolvedEsbdConfig;
+  entryPoints: BuildOptions['entryPoints'];
+  htmlEntries: (readonly [string, string])[];
+  logger: Logger;
+  mode: BuildMode;
+}
+
+/**
+ * Returns the HTML template files and any local assets they reference.
+ */
+function getTemplateFiles(allWriteOptions: WriteTemplateOptions[]): string[] {
+  const files = new Set<string>();
+  for (const { define, tagAssets, template, textAssets } of allWriteOptions) {
+    files.add(template.inputPath);
+
+    const templateDir = path.dirname(template.inputPath);
+    for (const [, url] of [...tagAssets, ...textAssets]) {
+      const [assetPath] = substituteDefines(url, define).split(/[?#]/);
+      files.add(path.resolve(templateDir, assetPath));
+    }
+  }
+  return Array.from(files);
+}
+
+/**
+ * Watches HTML templates (and the assets they reference) and rebuilds whenever
+ * they change. If the set of `<script>` and `<link>` entry points in the templates
+ * changes, the esbuild context is recreated with the new entry points.
+ *
+ * Templates are re-read after every build, so this only needs to trigger a rebuild.
+ */
+export function watchTemplates(
+  context: IncrementalBuildContext,
+  initialWriteOptions: WriteTemplateOptions[],
+  { config, entryPoints, htmlEntries, logger, mode }: WatchTemplatesOptions,
+): void {
+  let watchers: FSWatcher[] = [];
+  let currentEntryPoints = JSON.stringify(entryPoints);
+  let timeout: NodeJS.Timeout | undefined;
+
+  function watchFiles(allWriteOptions: WriteTemplateOptions[]) {
+    watchers.forEach(watcher => watcher.close());
+    watchers = [];
+
+    for (const file of getTemplateFiles(allWriteOptions)) {
+      try {
+        const watcher = fsWatch(file, { persistent: false, signal: context.signal }, () =>
+          scheduleUpdate(file),
+        );
+        watcher.on('error', () => {});
+        watchers.push(watcher);
+      } catch {
+        // Missing assets are reported when the template is written
+      }
+    }
+  }
+
+  async function update(file: string) {
+    logger.debug(pc.gray(`${path.relative(process.cwd(), file)} changed`));
+
+    const [buildOptions, allWriteOptions] = await getHtmlBuildOptions(htmlEntries, mode, config);
+
+    // Editors often replace files rather than modifying them, which ends the watch
+    watchFiles(allWriteOptions);
+
+    const nextEntryPoints = JSON.stringify(buildOptions.entryPoints);
+    if (nextEntryPoints !== currentEntryPoints) {
+      currentEntryPoints = nextEntryPoints;
+      logger.info(pc.gray('HTML entry points changed, restarting build'));
+      await context.recreate({ entryPoints: buildOptions.entryPoints });
+    } else {
+      // Build errors are reported by the build itself
+      await context.rebuild().catch(() => {});
+    }
+  }
+
+  function scheduleUpdate(file: string) {
+    if (context.signal.aborted) return;
+    clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      update(file).catch(e => logger.error(e instanceof Error ? e.message : String(e)));
+    }, 100);
+  }
+
+  watchFiles(initialWriteOptions);
+}
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import getPort from 'get-port';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import type { EsbdEvent } from '../lib';
+import { build, serve } from '../lib/api';
+
+const TEST_ROOT = path.join(__dirname, '..', 'test-results', 'api');
+
+async function writeFiles(files: Record<string, string>): Promise<string> {
+  const absWorkingDir = await fs.promises.mkdtemp(path.join(TEST_ROOT, 'test-'));
+  await Promise.all(
+    Object.entries(files).map(async ([file, content]) => {
+      const absFilePath = path.join(absWorkingDir, file);
+      await fs.promises.mkdir(path.dirname(absFilePath), { recursive: true });
+      await fs.promises.writeFile(absFilePath, content, { encoding: 'utf-8' });
+    }),
+  );
+  return absWorkingDir;
+}
+
+describe('programmatic API', () => {
+  beforeAll(async () => {
+    await fs.promises.mkdir(TEST_ROOT, { recursive: true });
+    return async () => {
+      await fs.promises.rm(TEST_ROOT, { recursive: true });
+    };
+  });
+
+  it('builds a configuration and emits build events', async () => {
+    const absWorkingDir = await writeFiles({ 'src/entry.ts': `console.log('one');` });
+    const config = { absWorkingDir, entryPoints: { entry: 'src/entry.ts' }, outdir: 'out' };
+
+    const handle = await build(config, { logLevel: 'silent' });
+    const events: EsbdEvent<'build-end'>[] = [];
+    handle.on('build-end', event => events.push(event));
+
+    await fs.promises.writeFile(path.join(absWorkingDir, 'src/entry.ts'), `console.log('two');`);
+    await handle.rebuild();
+    await handle.dispose();
+
+    expect(events).toEqual([expect.objectContaining({ entryPoints: ['entry'], errors: 0 })]);
+    const output = await fs.promises.readFile(path.join(absWorkingDir, 'out/entry.js'), 'utf-8');
+    expect(output).toContain('two');
+  });
+
+  it('removes compressed copies of outputs that are no longer eligible', async () => {
+    const absWorkingDir = await writeFiles({
+      'src/entry.ts': `console.log('${'hello '.repeat(50)}');`,
+    });
+    const config = {
+      absWorkingDir,
+      compress: { formats: ['gzip' as const], threshold: { '.js': 100 } },
+      entryPoints: { entry: 'src/entry.ts' },
+      outdir: 'out',
+      sourcemap: false,
+    };
+
+    const handle = await build(config, { logLevel: 'silent' });
+    const outdir = path.join(absWorkingDir, 'out');
+    expect((await fs.promises.readdir(outdir)).sort()).toEqual(['entry.js', 'entry.js.gz']);
+
+    await fs.promises.writeFile(path.join(absWorkingDir, 'src/entry.ts'), `console.log('hi');`);
+    await handle.rebuild();
+    await handle.dispose();
+
+    expect(await fs.promises.readdir(outdir)).toEqual(['entry.js']);
+  });
+
+  it('rejects when a build fails', async () => {
+    const absWorkingDir = await writeFiles({ 'src/entry.ts': `import './missing';` });
+    const config = { absWorkingDir, entryPoints: { entry: 'src/entry.ts' }, outdir: 'out' };
+
+    await expect(build(config, { logLevel: 'silent' })).rejects.toThrow(/Could not resolve/);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('passes events from before the handle is returned to onEvent', async () => {
+    const absWorkingDir = await writeFiles({
+      'index.html': `<!DOCTYPE html><html><head><script defer src="./src/entry.ts"></script></head><body></body></html>`,
+      'src/entry.ts': `console.log('served');`,
+    });
+    const config = { absWorkingDir, entryPoints: ['index.html'], outdir: 'out' };
+    const events: EsbdEvent[] = [];
+
+    const handle = await serve(config, {
+      logLevel: 'silent',
+      onEvent: event => events.push(event),
+      port: await getPort({ port: 9000 }),
+    });
+    await handle.dispose();
+
+    expect(events.map(event => event.type)).toContain('build-end');
+    expect(events).toContainEqual({ type: 'server-listening', url: handle.url });
+  });
+
+  it('serves configurations until the handle is disposed', async () => {
+    const absWorkingDir = await writeFiles({
+      'index.html': `<!DOCTYPE html><html><head><script defer src="./src/entry.ts"></script></head><body></body></html>`,
+      'src/entry.ts': `console.log('served');`,
+    });
+    const config = { absWorkingDir, entryPoints: ['index.html'], outdir: 'out' };
+
+    const handle = await serve(config, { logLevel: 'silent', port: await getPort({ port: 9000 }) });
+    try {
+      const res = await fetch(handle.url);
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain('<script');
+    } finally {
+      await handle.dispose();
+    }
+  });
+});
@@ -18,11 +18,14 @@ interface ServerTestFixtures {
   startServer(config: ServerConfig): Promise<{
     stop: () => void;
     write: (fileIndex: number) => Promise<void>;
+    writeStdin: (data: string) => void;
   }>;
 }
 
 interface ServerConfig {
   config: Omit<EsbdConfig, 'absWorkingDir' | 'outdir'>;
+  /** Additional configurations to build alongside the program (named "main"). */
+  configs?: (Omit<EsbdConfig, 'absWorkingDir'> & { name: string })[];
   files: { [relativePath: string]: string | Buffer }[];
   respawn?: boolean;
   args?: string[];
@@ -58,7 +61,7 @@ const test = base.extend<ServerTestFixtures>({
     let proc: ExecaChildProcess | undefined;
 
     const startServer = async (serverConfig: ServerConfig) => {
-      const { args = [], config, files, respawn, onStderr, onStdout } = serverConfig;
+      const { args = [], config, configs, files, respawn, onStderr, onStdout } = serverConfig;
       const evt = new EventEmitter();
 
       async function waitForWatcher() {
@@ -83,17 +86,26 @@ const test = base.extend<ServerTestFixtures>({
       const bundleFile = path.join(absWorkingDir, 'bundle.js');
       const writeBundle = fsp.writeFile(
         bundleFile,
-        `require('../../lib').configure(${JSON.stringify(fullConfig)});`,
+        `require('../../lib').configure(${JSON.stringify(
+          configs
+            ? [{ ...fullConfig, name: 'main' }, ...configs.map(c => ({ ...c, absWorkingDir }))]
+            : fullConfig,
+        )});`,
       );
 
       await Promise.all([writeBundle, writeFiles(initialFiles)]);
 
-      proc = node(bundleFile, ['node-dev', '-l', 'verbose', respawn ? '-r' : '', ...args], {
-        encoding: 'utf8',
-        reject: false,
-        cwd: absWorkingDir,
-        env: { ...process.env, FORCE_COLOR: undefined, NO_COLOR: '1' },
-      });
+      const names = configs ? ['main', ...configs.map(c => c.name)] : [];
+      proc = node(
+        bundleFile,
+        ['node-dev', ...names, '-l', 'verbose', ...(respawn ? ['-r'] : []), ...args],
+        {
+          encoding: 'utf8',
+          reject: false,
+          cwd: absWorkingDir,
+          env: { ...process.env, FORCE_COLOR: undefined, NO_COLOR: '1' },
+        },
+      );
 
       await waitOn({ resources: [`http-get://127.0.0.1:${port}`], timeout: 10000 });
 
@@ -127,6 +139,9 @@ const test = base.extend<ServerTestFixtures>({
         stop: () => {
           proc?.cancel();
         },
+        writeStdin: (data: string) => {
+          proc?.stdin?.write(data);
+        },
         write: async (fileIndex: number) => {
           await writeFiles(files[fileIndex]);
           try {
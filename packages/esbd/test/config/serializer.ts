@@ -16,6 +16,7 @@ function* walk(dirPath: string): Generator<string, void> {
 
 export interface BuildWithHTMLOutput {
   cwd: string;
+  exitCode?: number;
   outdir: string;
   stdout: string;
   stderr: string;
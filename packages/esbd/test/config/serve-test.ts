@@ -23,8 +23,11 @@ interface ServerTestFixtures {
 
 interface ServerConfig {
   config?: Partial<EsbdConfig>;
+  /** Additional configurations to serve alongside the main one (named "main"). */
+  configs?: (Omit<EsbdConfig, 'absWorkingDir'> & { name: string })[];
   disableRewrite?: boolean;
   files: { [relativePath: string]: string | Buffer }[];
+  https?: boolean;
   livereload?: boolean;
   serveDir?: string;
 }
@@ -57,7 +60,7 @@ const test = base.extend<ServerTestFixtures>({
     let proc: ExecaChildProcess | undefined;
 
     const startServer = async (serverConfig: ServerConfig) => {
-      const { livereload, config, disableRewrite, files, serveDir } = serverConfig;
+      const { livereload, config, configs, disableRewrite, files, https, serveDir } = serverConfig;
 
       const initialFiles = files[0];
       if (!initialFiles) {
@@ -84,7 +87,11 @@ const test = base.extend<ServerTestFixtures>({
       const bundleFile = path.join(absWorkingDir, 'bundle.js');
       const writeBundle = fsp.writeFile(
         bundleFile,
-        `require('../../lib').configure(${JSON.stringify(fullConfig)});`,
+        `require('../../lib').configure(${JSON.stringify(
+          configs
+            ? [{ ...fullConfig, name: 'main' }, ...configs.map(c => ({ ...c, absWorkingDir }))]
+            : fullConfig,
+        )});`,
       );
 
       await Promise.all([writeBundle, writeFiles(initialFiles)]);
@@ -93,11 +100,13 @@ const test = base.extend<ServerTestFixtures>({
         bundleFile,
         [
           'serve',
+          ...(configs ? ['main', ...configs.map(c => c.name)] : []),
           '--log-level',
           'info',
           '-p',
           String(port),
           livereload && '-r',
+          https && '--https',
           disableRewrite && '--no-rewrite',
           serveDir && '-d',
           serveDir,
@@ -118,7 +127,11 @@ const test = base.extend<ServerTestFixtures>({
         }
       });
 
-      await waitOn({ resources: [`http-get://127.0.0.1:${port}`], timeout: 10000 });
+      await waitOn({
+        resources: [`${https ? 'https' : 'http'}-get://127.0.0.1:${port}`],
+        strictSSL: false,
+        timeout: 10000,
+      });
 
       return {
         write: async (fileIndex: number) => {
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import type { CopyOption } from '../lib/copy-assets';
+import { normalizeCopyRules, resolveCopyRule, watchCopyRule } from '../lib/copy-assets';
+
+const TEST_ROOT = path.join(__dirname, '..', 'test-results', 'copy-assets');
+
+type CopyEvent = [from: string, to: string, removed: boolean];
+
+describe('watchCopyRule', () => {
+  let absWorkingDir: string;
+  let controller: AbortController;
+  let events: CopyEvent[];
+  let errors: unknown[];
+
+  beforeAll(async () => {
+    await fs.promises.mkdir(TEST_ROOT, { recursive: true });
+    return async () => {
+      await fs.promises.rm(TEST_ROOT, { recursive: true });
+    };
+  });
+
+  afterEach(() => {
+    controller.abort();
+    expect(errors).toEqual([]);
+  });
+
+  async function writeFile(file: string, content: string) {
+    await fs.promises.mkdir(path.dirname(path.join(absWorkingDir, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(absWorkingDir, file), content);
+  }
+
+  async function watch(copy: CopyOption, files: Record<string, string> = {}) {
+    absWorkingDir = await fs.promises.mkdtemp(path.join(TEST_ROOT, 'test-'));
+    await Promise.all(Object.entries(files).map(([file, content]) => writeFile(file, content)));
+
+    controller = new AbortController();
+    events = [];
+    errors = [];
+    const [rule] = normalizeCopyRules([copy], absWorkingDir, path.join(absWorkingDir, 'out'));
+    watchCopyRule(
+      rule,
+      controller.signal,
+      (from, to, removed) => events.push([from, to, removed]),
+      error => errors.push(error),
+    );
+
+    // Wait for the initial scan, which doesn't report existing files
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(events).toEqual([]);
+  }
+
+  function event(from: string, to: string, removed = false): CopyEvent {
+    return [path.join(absWorkingDir, from), path.join(absWorkingDir, 'out', to), removed];
+  }
+
+  it('reports files that are added, changed and removed in a directory', async () => {
+    await watch(['assets'], { 'assets/logo.svg': '<svg />' });
+
+    await writeFile('assets/fonts/bold.woff2', 'bold');
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(event('assets/fonts/bold.woff2', 'assets/fonts/bold.woff2')),
+    );
+
+    await writeFile('assets/logo.svg', '<svg></svg>');
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(event('assets/logo.svg', 'assets/logo.svg')),
+    );
+
+    await fs.promises.rm(path.join(absWorkingDir, 'assets/fonts'), { recursive: true });
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(
+        event('assets/fonts/bold.woff2', 'assets/fonts/bold.woff2', true),
+      ),
+    );
+  });
+
+  it('watches directories that are created after watching starts', async () => {
+    await watch(['locales/**/*.json', 'i18n']);
+
+    await writeFile('locales/en/messages.json', '{}');
+    await writeFile('locales/README.md', 'not copied');
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(event('locales/en/messages.json', 'i18n/en/messages.json')),
+    );
+
+    await fs.promises.rm(path.join(absWorkingDir, 'locales'), { recursive: true });
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(
+        event('locales/en/messages.json', 'i18n/en/messages.json', true),
+      ),
+    );
+    expect(events.map(([from]) => from)).not.toContain(
+      path.join(absWorkingDir, 'locales/README.md'),
+    );
+  });
+
+  it('skips node_modules and the output directory for globs without a base', async () => {
+    await watch(['**/*.txt', 'text'], {
+      'notes.txt': 'notes',
+      'docs/guide.txt': 'guide',
+      'node_modules/pkg/license.txt': 'license',
+      'out/text/notes.txt': 'notes',
+    });
+
+    const [rule] = normalizeCopyRules(
+      [['**/*.txt', 'text']],
+      absWorkingDir,
+      path.join(absWorkingDir, 'out'),
+    );
+    expect((await resolveCopyRule(rule)).sort()).toEqual([
+      [
+        path.join(absWorkingDir, 'docs/guide.txt'),
+        path.join(absWorkingDir, 'out/text/docs/guide.txt'),
+      ],
+      [path.join(absWorkingDir, 'notes.txt'), path.join(absWorkingDir, 'out/text/notes.txt')],
+    ]);
+
+    await writeFile('out/text/docs/guide.txt', 'guide');
+    await writeFile('node_modules/pkg/readme.txt', 'readme');
+    await writeFile('docs/faq.txt', 'faq');
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(event('docs/faq.txt', 'text/docs/faq.txt')),
+    );
+    expect(events.map(([from]) => path.relative(absWorkingDir, from))).not.toContainEqual(
+      expect.stringMatching(/^(out|node_modules)\//),
+    );
+  });
+
+  it('re-checks whether the source is a file or a directory', async () => {
+    await watch(['assets/robots.txt'], { 'assets/robots.txt': 'User-agent: *' });
+
+    await fs.promises.rm(path.join(absWorkingDir, 'assets/robots.txt'));
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(event('assets/robots.txt', 'assets/robots.txt', true)),
+    );
+
+    await writeFile('assets/robots.txt/index.txt', 'User-agent: *');
+    await vi.waitFor(() =>
+      expect(events).toContainEqual(
+        event('assets/robots.txt/index.txt', 'assets/robots.txt/index.txt'),
+      ),
+    );
+
+    const [rule] = normalizeCopyRules(
+      [['assets/robots.txt']],
+      absWorkingDir,
+      path.join(absWorkingDir, 'out'),
+    );
+    await expect(resolveCopyRule(rule)).resolves.toEqual([
+      [
+        path.join(absWorkingDir, 'assets/robots.txt/index.txt'),
+        path.join(absWorkingDir, 'out/assets/robots.txt/index.txt'),
+      ],
+    ]);
+  });
+});
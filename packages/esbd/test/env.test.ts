@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'vitest';
+
+import { parseEnv } from '../lib/env';
+
+describe('parseEnv', () => {
+  test('basic variables', () => {
+    const input = 'FOO=foo\nBAR = bar\nexport BAZ=baz';
+    expect(parseEnv(input)).toEqual({ FOO: 'foo', BAR: 'bar', BAZ: 'baz' });
+  });
+
+  test('ignores comments and blank lines', () => {
+    const input = '# comment\n\nFOO=foo # trailing comment\nBAR=';
+    expect(parseEnv(input)).toEqual({ FOO: 'foo', BAR: '' });
+  });
+
+  test('quoted values - removes quotes', () => {
+    const input = `SINGLE='one # two'\nDOUBLE="three"\nBACKTICK=\`four\``;
+    expect(parseEnv(input)).toEqual({ SINGLE: 'one # two', DOUBLE: 'three', BACKTICK: 'four' });
+  });
+
+  test('double quoted values - expands newlines', () => {
+    const input = 'MULTI="one\\ntwo"\nRAW=\'one\\ntwo\'';
+    expect(parseEnv(input)).toEqual({ MULTI: 'one\ntwo', RAW: 'one\\ntwo' });
+  });
+
+  test('multi-line values', () => {
+    const input = 'KEY="-----BEGIN-----\r\nabc\r\n-----END-----"\nNEXT=1';
+    expect(parseEnv(input)).toEqual({ KEY: '-----BEGIN-----\nabc\n-----END-----', NEXT: '1' });
+  });
+});
@@ -649,4 +649,31 @@ describe('build command (html entry)', () => {
       }),
     ).resolves.toMatchSnapshot();
   });
+
+  it('exposes prefixed environment variables from env files', () => {
+    return expect(
+      buildWithHTML({
+        config: {
+          envPrefix: 'PUBLIC_',
+        },
+        files: {
+          '.env': 'PUBLIC_TITLE=My app\nPUBLIC_API_URL=https://example.com\nSECRET=hunter2',
+          '.env.production': 'PUBLIC_API_URL=https://api.example.com',
+          'index.html': `
+            <!DOCTYPE html>
+            <html>
+              <head>
+                <title>{{PUBLIC_TITLE}}</title>
+                <script defer type="module" src="./src/entry.ts"></script>
+              </head>
+              <body></body>
+            </html>
+          `,
+          'src/entry.ts': `
+            console.log(process.env.PUBLIC_API_URL, process.env.SECRET);
+          `,
+        },
+      }),
+    ).resolves.toMatchSnapshot();
+  });
 });
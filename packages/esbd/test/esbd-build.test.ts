@@ -2,13 +2,17 @@ import { node } from 'execa';
 import fs from 'fs';
 import path from 'path';
 import { beforeAll, describe, expect, it } from 'vitest';
+import zlib from 'zlib';
 
-import type { EsbdConfig } from '../lib';
+import type { CustomBuildModes, EsbdConfig } from '../lib';
 
 import type { BuildWithHTMLOutput } from './config/serializer';
 
 interface BuildWithHTMLOptions {
-  config: Omit<EsbdConfig, 'absWorkingDir' | 'outdir'>;
+  args?: string[];
+  buildModes?: CustomBuildModes;
+  config: Omit<EsbdConfig, 'absWorkingDir' | 'outdir'> | Omit<EsbdConfig, 'absWorkingDir'>[];
+  configFile?: string;
   files: Record<string, string>;
 }
 
@@ -20,19 +24,31 @@ async function build(options: BuildWithHTMLOptions): Promise<BuildWithHTMLOutput
 
   await fs.promises.mkdir(absOutDir, { recursive: true });
 
-  const config: EsbdConfig = {
-    ...options.config,
-    sourcemap: false,
-    absWorkingDir,
-    logLevel: 'warning',
-    outdir: './out',
-  };
+  const config: EsbdConfig | EsbdConfig[] = Array.isArray(options.config)
+    ? options.config.map(c => ({ sourcemap: false, absWorkingDir, logLevel: 'warning', ...c }))
+    : {
+        ...options.config,
+        sourcemap: false,
+        absWorkingDir,
+        logLevel: 'warning',
+        outdir: './out',
+      };
 
-  const bundleFile = path.join(absWorkingDir, 'bundle.js');
-  const writeBundle = fs.promises.writeFile(
-    bundleFile,
-    `require('../../../lib').configure(${JSON.stringify(config)});`,
-  );
+  const bundleFile = options.configFile
+    ? path.join(__dirname, '..', 'lib', 'bin.js')
+    : path.join(absWorkingDir, 'bundle.js');
+  const writeBundle = options.configFile
+    ? fs.promises.writeFile(
+        path.join(absWorkingDir, options.configFile),
+        `const config: Record<string, unknown> = ${JSON.stringify(config)};\nexport default config;\n` +
+          `export const buildModes = ${JSON.stringify(options.buildModes)};`,
+      )
+    : fs.promises.writeFile(
+        bundleFile,
+        `require('../../../lib').configure(${JSON.stringify(config)}, ${JSON.stringify({
+          buildModes: options.buildModes,
+        })});`,
+      );
 
   const writeFiles = Object.entries(options.files).map(async ([file, content]) => {
     const absFilePath = path.join(absWorkingDir, file);
@@ -42,16 +58,16 @@ async function build(options: BuildWithHTMLOptions): Promise<BuildWithHTMLOutput
 
   await Promise.all([...writeFiles, writeBundle]);
 
-  const proc = node(bundleFile, ['build'], {
+  const proc = node(bundleFile, ['build', ...(options.args ?? [])], {
     encoding: 'utf8',
     reject: false,
     cwd: absWorkingDir,
     env: { ...process.env, NO_COLOR: '1' },
   });
 
-  const { stderr, stdout } = await proc;
+  const { exitCode, stderr, stdout } = await proc;
 
-  return { cwd: absWorkingDir, outdir: absOutDir, stdout, stderr };
+  return { cwd: absWorkingDir, exitCode, outdir: absOutDir, stdout, stderr };
 }
 
 describe('build command', () => {
@@ -173,4 +189,267 @@ describe('build command', () => {
       }),
     ).resolves.toMatchSnapshot();
   });
+
+  it('copies files matching glob patterns and directories', () => {
+    return expect(
+      build({
+        config: {
+          entryPoints: { entry: 'src/entry.ts' },
+          format: 'esm',
+          copy: [['assets/fonts'], ['locales/**/*.json', 'i18n'], ['assets/robots.txt']],
+        },
+        files: {
+          'src/entry.ts': `
+            console.log('hello');
+          `,
+          'assets/fonts/regular.woff2': 'regular',
+          'assets/fonts/bold/bold.woff2': 'bold',
+          'assets/robots.txt': 'User-agent: *',
+          'locales/en/messages.json': '{ "hello": "Hello" }',
+          'locales/fr/messages.json': '{ "hello": "Bonjour" }',
+          'locales/README.md': 'not copied',
+        },
+      }),
+    ).resolves.toMatchSnapshot();
+  });
+
+  it('discovers and loads a TypeScript config file', () => {
+    return expect(
+      build({
+        config: {
+          entryPoints: { entry: 'src/entry.ts' },
+          format: 'esm',
+        },
+        configFile: 'esbd.config.ts',
+        files: {
+          'src/entry.ts': `
+            export const hello: string = 'world';
+          `,
+        },
+      }),
+    ).resolves.toMatchSnapshot();
+  });
+
+  it('writes an analysis report', async () => {
+    const { outdir } = await build({
+      args: ['--analyze'],
+      config: {
+        entryPoints: { entry: 'src/entry.ts' },
+        format: 'esm',
+      },
+      files: {
+        'src/entry.ts': `
+          import { greet } from './greet';
+          console.log(greet('world'));
+        `,
+        'src/greet.ts': `
+          export function greet(name: string) {
+            return 'Hello ' + name;
+          }
+        `,
+      },
+    });
+
+    const summary = JSON.parse(
+      await fs.promises.readFile(path.join(outdir, 'esbd-analysis.json'), 'utf-8'),
+    );
+    expect(summary.outputs.map((o: { path: string }) => o.path)).toEqual(['out/entry.js']);
+    expect(summary.largestModules).toContainEqual(
+      expect.objectContaining({
+        path: 'src/greet.ts',
+        importChain: ['src/entry.ts', 'src/greet.ts'],
+      }),
+    );
+    expect(summary.duplicatedPackages).toEqual([]);
+
+    const report = await fs.promises.readFile(path.join(outdir, 'esbd-analysis.html'), 'utf-8');
+    expect(report).toContain('src/greet.ts');
+  });
+
+  it('fails the build when an output exceeds its size budget', async () => {
+    const { exitCode, stderr } = await build({
+      config: {
+        budgets: { entry: { warning: { raw: 10 }, error: { gzip: 10 } } },
+        entryPoints: { entry: 'src/entry.ts' },
+        format: 'esm',
+      },
+      files: {
+        'src/entry.ts': `console.log('a string that is long enough to exceed the budget');`,
+      },
+    });
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toMatch(/out\/entry\.js is \d+ B \(gzip\), exceeding its budget of 10 B/);
+    expect(stderr).toMatch(/out\/entry\.js is \d+ B, exceeding its budget of 10 B/);
+  });
+
+  it('compares output sizes with the previous size snapshot', async () => {
+    const { exitCode, stderr, cwd } = await build({
+      config: {
+        budgets: { '*.js': { warning: { increase: '10%' } } },
+        budgetSnapshot: 'sizes.json',
+        entryPoints: { entry: 'src/entry.ts' },
+        format: 'esm',
+      },
+      files: {
+        'sizes.json': JSON.stringify({ 'src/entry.ts (js)': { raw: 10 } }),
+        'src/entry.ts': `console.log('a string that is long enough to exceed the budget');`,
+      },
+    });
+
+    expect(exitCode).toBe(0);
+    expect(stderr).toMatch(
+      /out\/entry\.js grew by \d+ B \(\+\d+\.\d%\) since the previous build, exceeding its allowed increase of 10%/,
+    );
+
+    const snapshot = JSON.parse(await fs.promises.readFile(path.join(cwd, 'sizes.json'), 'utf-8'));
+    expect(snapshot['src/entry.ts (js)'].raw).toBeGreaterThan(10);
+  });
+
+  it('writes compressed copies of outputs above the threshold', async () => {
+    const { outdir } = await build({
+      config: {
+        compress: { formats: ['gzip'], threshold: { '.js': 100 } },
+        entryPoints: { entry: 'src/entry.ts', small: 'src/small.ts' },
+        format: 'esm',
+      },
+      files: {
+        'src/entry.ts': `console.log('${'hello '.repeat(50)}');`,
+        'src/small.ts': `console.log('hi');`,
+      },
+    });
+
+    const files = await fs.promises.readdir(outdir);
+    expect(files.sort()).toEqual(['entry.js', 'entry.js.gz', 'small.js']);
+
+    const compressed = await fs.promises.readFile(path.join(outdir, 'entry.js.gz'));
+    const original = await fs.promises.readFile(path.join(outdir, 'entry.js'));
+    expect(zlib.gunzipSync(compressed)).toEqual(original);
+  });
+
+  it('writes a manifest of entry point outputs', async () => {
+    const { outdir } = await build({
+      config: {
+        entryNames: '[name]-[hash]',
+        entryPoints: { app: 'src/app.ts', admin: 'src/admin.ts' },
+        format: 'esm',
+        integrity: 'sha256',
+        loader: { '.svg': 'file' },
+        manifest: true,
+        publicPath: '/static',
+        splitting: true,
+      },
+      files: {
+        'src/admin.ts': `import { shared } from './shared'; console.log(shared);`,
+        'src/app.ts': `
+          import './app.css';
+          import logo from './logo.svg';
+          import { shared } from './shared';
+          console.log(logo, shared);
+        `,
+        'src/app.css': `body { color: red; }`,
+        'src/logo.svg': `<svg xmlns="http://www.w3.org/2000/svg"></svg>`,
+        'src/shared.ts': `export const shared = 'shared';`,
+      },
+    });
+
+    const manifest = JSON.parse(
+      await fs.promises.readFile(path.join(outdir, 'manifest.json'), 'utf-8'),
+    );
+    expect(Object.keys(manifest).sort()).toEqual(['admin', 'app']);
+    expect(manifest.app).toEqual({
+      js: [expect.stringMatching(/^\/static\/app-\w+\.js$/)],
+      css: [expect.stringMatching(/^\/static\/app-\w+\.css$/)],
+      imports: [expect.stringMatching(/^\/static\/chunk-\w+\.js$/)],
+      assets: [expect.stringMatching(/^\/static\/logo-\w+\.svg$/)],
+      integrity: expect.any(Object),
+    });
+    expect(manifest.admin.imports).toEqual(manifest.app.imports);
+    expect(Object.keys(manifest.app.integrity)).toEqual([
+      ...manifest.app.js,
+      ...manifest.app.css,
+      ...manifest.app.imports,
+    ]);
+    expect(manifest.app.integrity[manifest.app.js[0]]).toMatch(/^sha256-/);
+  });
+
+  it('writes build events as JSON lines', async () => {
+    const { exitCode, stdout } = await build({
+      args: ['--log-format', 'json'],
+      config: {
+        entryPoints: { entry: 'src/entry.ts' },
+      },
+      files: {
+        'src/entry.ts': `if (Math.random() == -0) console.log('zero');`,
+      },
+    });
+
+    expect(exitCode).toBe(0);
+    const events = stdout.split('\n').map(line => JSON.parse(line));
+    expect(events.map(event => event.type)).toEqual([
+      'build-start',
+      'file-written',
+      'build-message',
+      'build-end',
+    ]);
+    expect(events[1]).toMatchObject({ path: expect.stringMatching(/entry\.js$/) });
+    expect(events[2]).toMatchObject({
+      kind: 'warning',
+      location: { file: 'src/entry.ts', line: 1 },
+    });
+    expect(events[3]).toMatchObject({ entryPoints: ['entry'], errors: 0, warnings: 1 });
+  });
+
+  it('labels the output of each configuration and summarizes the builds', async () => {
+    const { exitCode, stdout, stderr } = await build({
+      args: ['--log-level', 'info', '--buffer-output'],
+      config: [
+        { name: 'app', entryPoints: { app: 'src/app.ts' }, logLevel: 'info', outdir: './out/app' },
+        { name: 'lib', entryPoints: { lib: 'src/lib.ts' }, logLevel: 'info', outdir: './out/lib' },
+      ],
+      files: {
+        'src/app.ts': `if (Math.random() == -0) console.log('zero');`,
+        'src/lib.ts': `export const lib = 'lib';`,
+      },
+    });
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toMatch(/\[app\] Wrote out\/app\/app\.js/);
+    expect(stdout).toMatch(/\[lib\] Wrote out\/lib\/lib\.js/);
+    expect(stdout).toMatch(/Config\s+Errors\s+Warnings\s+Duration\n.*lib\s+0\s+0\s+\d+ms/);
+    expect(stderr).toMatch(/app\s+0\s+1\s+\d+ms/);
+  });
+
+  it('builds custom modes with the defaults of their base mode', async () => {
+    const options: BuildWithHTMLOptions = {
+      args: ['--mode', 'staging'],
+      buildModes: { staging: 'production' },
+      config: {
+        entryPoints: { entry: 'src/entry.ts' },
+        modes: { staging: { define: { 'process.env.STAGE': '"staging"' } } },
+      },
+      configFile: 'esbd.config.ts',
+      files: {
+        'src/entry.ts': `
+          const stage: string = process.env.STAGE ?? 'unknown';
+          console.log(stage);
+        `,
+      },
+    };
+
+    const { exitCode, outdir } = await build(options);
+    expect(exitCode).toBe(0);
+    const output = await fs.promises.readFile(path.join(outdir, 'entry.js'), 'utf-8');
+    // Minified like a production build, without the unused fallback
+    expect(output).toMatch(
+      /^"use strict";\(\(\)=>\{var \w="staging";console\.log\(\w\);\}\)\(\);\n$/,
+    );
+
+    const { exitCode: unknownExitCode, stderr } = await build({
+      ...options,
+      args: ['-m', 'stagin'],
+    });
+    expect(unknownExitCode).toBe(1);
+    expect(stderr).toContain('Unknown mode: "stagin" (did you mean "staging"?)');
+  });
 });
@@ -1,3 +1,5 @@
+import getPort from 'get-port';
+
 import test from './config/node-dev-test';
 
 test('serves content from entry point', async ({ port, startServer, request }) => {
@@ -134,6 +136,448 @@ test('retries 3 times if server crashes', async ({ port, startServer, request })
 
   await write(1);
 
+  // Restarts continue after the watcher reports the rebuild
+  await test.expect
+    .poll(() => stderr.join('\n'))
+    .toContain('Maximum keep-alive count reached, dying');
   test.expect(stderr.filter(v => v.startsWith('Error: crash'))).toHaveLength(3);
-  test.expect(stderr.join('\n')).toContain('Maximum keep-alive count reached, dying');
+});
+
+test('reuses the inspector port when the program restarts', async ({
+  port,
+  startServer,
+  request,
+}) => {
+  const inspectPort = await getPort({ port: port + 1 });
+  const stdout: string[] = [];
+
+  const server = (message: string) => `
+    const server = require('http').createServer((req, res) => {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('${message}');
+    });
+    server.listen(${port}, '127.0.0.1');
+  `;
+
+  const { write } = await startServer({
+    args: [`--inspect=${inspectPort}`],
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+    },
+    files: [{ 'src/server.ts': server('Hello world') }, { 'src/server.ts': server('Goodbye') }],
+    onStdout: output => {
+      stdout.push(output);
+    },
+  });
+
+  const targets1 = await request.get(`http://127.0.0.1:${inspectPort}/json/list`);
+  const [target1] = await targets1.json();
+  test.expect(target1.devtoolsFrontendUrl).toContain(`ws=127.0.0.1:${inspectPort}/`);
+
+  await write(1);
+
+  const res = await request.get(`http://127.0.0.1:${port}`);
+  test.expect(await res.text()).toBe('Goodbye');
+
+  const targets2 = await request.get(`http://127.0.0.1:${inspectPort}/json/list`);
+  const [target2] = await targets2.json();
+  test.expect(target2.id).not.toBe(target1.id);
+  await test.expect
+    .poll(() => stdout.join(''))
+    .toContain(`Debugger available at ${target2.devtoolsFrontendUrl}`);
+});
+
+test('stops the previous program before restarting when the inspector is enabled', async ({
+  port,
+  startServer,
+  request,
+}) => {
+  const inspectPort = await getPort({ port: port + 1 });
+  const output: string[] = [];
+
+  const server = (message: string) => `
+    const server = require('http').createServer((req, res) => {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('${message}');
+    });
+    server.listen(${port}, '127.0.0.1', () => process.send('ready'));
+  `;
+
+  const { write } = await startServer({
+    args: [`--inspect=${inspectPort}`],
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+      nodeDev: { waitForReady: true },
+    },
+    files: [{ 'src/server.ts': server('Hello world') }, { 'src/server.ts': server('Goodbye') }],
+    onStdout: data => output.push(data),
+    onStderr: data => output.push(data),
+  });
+
+  await write(1);
+
+  const res = await request.get(`http://127.0.0.1:${port}`);
+  test.expect(await res.text()).toBe('Goodbye');
+
+  const targets = await request.get(`http://127.0.0.1:${inspectPort}/json/list`);
+  test.expect(await targets.json()).toHaveLength(1);
+
+  const log = output.join('');
+  test.expect(log).toContain('"waitForReady" is ignored while the inspector is enabled');
+  test.expect(log).not.toContain('Starting inspector');
+  test.expect(log).not.toContain('address already in use');
+});
+
+test('keeps the previous program running until the new one is ready', async ({
+  port,
+  startServer,
+  request,
+}) => {
+  const stderr: string[] = [];
+
+  const { write } = await startServer({
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+      nodeDev: { waitForReady: true },
+    },
+    files: [
+      // 0
+      {
+        'src/server.ts': `
+          const server = require('http').createServer((req, res) => {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'text/plain');
+            res.end('Hello world');
+          });
+          server.listen(${port}, '127.0.0.1', () => process.send('ready'));
+        `,
+      },
+      // 1
+      {
+        'src/server.ts': `
+        throw new Error('crash');
+        `,
+      },
+    ],
+    onStderr: output => {
+      stderr.push(...output.split('\n'));
+    },
+  });
+
+  await write(1);
+
+  await test.expect
+    .poll(() => stderr.join('\n'))
+    .toContain('before it was ready, keeping the previous instance running');
+
+  const res = await request.get(`http://127.0.0.1:${port}`);
+  test.expect(res.status()).toBe(200);
+  test.expect(await res.text()).toBe('Hello world');
+});
+
+test('does not restart the program if its output did not change', async ({
+  port,
+  startServer,
+  request,
+}) => {
+  const stdout: string[] = [];
+
+  const server = (comment: string) => `
+    // ${comment}
+    const server = require('http').createServer((req, res) => {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end(String(process.pid));
+    });
+    server.listen(${port}, '127.0.0.1');
+  `;
+
+  const { write } = await startServer({
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+    },
+    files: [{ 'src/server.ts': server('one') }, { 'src/server.ts': server('two') }],
+    onStdout: output => {
+      stdout.push(output);
+    },
+  });
+
+  const res1 = await request.get(`http://127.0.0.1:${port}`);
+  const pid = await res1.text();
+
+  await write(1);
+
+  await test.expect.poll(() => stdout.join('')).toContain('No output changes, not restarting');
+  const res2 = await request.get(`http://127.0.0.1:${port}`);
+  test.expect(await res2.text()).toBe(pid);
+});
+
+test('starts the main entry point', async ({ port, startServer, request }) => {
+  await startServer({
+    config: {
+      platform: 'node',
+      entryPoints: { worker: 'src/worker.ts', server: 'src/server.ts' },
+      nodeDev: { main: 'server' },
+    },
+    files: [
+      {
+        'src/worker.ts': `throw new Error('wrong entry point');`,
+        'src/server.ts': `
+          const server = require('http').createServer((req, res) => {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'text/plain');
+            res.end('Hello world');
+          });
+          server.listen(${port}, '127.0.0.1');
+        `,
+      },
+    ],
+  });
+
+  const res = await request.get(`http://127.0.0.1:${port}`);
+  test.expect(await res.text()).toBe('Hello world');
+});
+
+test('starts several processes with prefixed output', async ({ port, startServer, request }) => {
+  const stdout: string[] = [];
+
+  await startServer({
+    args: ['--', '-v'],
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts', worker: 'src/worker.ts' },
+      nodeDev: {
+        processes: {
+          api: { entry: 'server' },
+          worker: { args: ['--queue', 'jobs'] },
+        },
+      },
+    },
+    files: [
+      {
+        'src/server.ts': `
+          const server = require('http').createServer((req, res) => {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'text/plain');
+            res.end('Hello ' + process.argv.slice(2).join());
+          });
+          server.listen(${port}, '127.0.0.1', () => console.log('listening'));
+        `,
+        'src/worker.ts': `
+          console.log('processing ' + process.argv.slice(2).join());
+          setInterval(() => {}, 1000);
+        `,
+      },
+    ],
+    onStdout: output => {
+      stdout.push(output);
+    },
+  });
+
+  const res = await request.get(`http://127.0.0.1:${port}`);
+  test.expect(await res.text()).toBe('Hello -v');
+
+  await test.expect.poll(() => stdout.join('')).toContain('[api] listening');
+  await test.expect.poll(() => stdout.join('')).toContain('[worker] processing --queue,jobs,-v');
+});
+
+test('builds other configurations alongside the program', async ({
+  absWorkingDir,
+  port,
+  startServer,
+  request,
+  writeFiles,
+}) => {
+  await startServer({
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+    },
+    configs: [
+      {
+        name: 'web',
+        entryPoints: { client: 'src/client.ts' },
+        outdir: './public',
+        sourcemap: false,
+      },
+    ],
+    files: [
+      {
+        'src/server.ts': `
+          const fs = require('fs');
+          const path = require('path');
+          const server = require('http').createServer((req, res) => {
+            res.setHeader('Content-Type', 'text/plain');
+            fs.createReadStream(path.join(${JSON.stringify(absWorkingDir)}, 'public/client.js'))
+              .on('error', () => res.writeHead(404).end())
+              .pipe(res);
+          });
+          server.listen(${port}, '127.0.0.1');
+        `,
+        'src/client.ts': `console.log('first');`,
+      },
+    ],
+  });
+
+  await test
+    .expect(async () => {
+      const res = await request.get(`http://127.0.0.1:${port}`);
+      test.expect(await res.text()).toContain('first');
+    })
+    .toPass({ timeout: 5000 });
+
+  await writeFiles({ 'src/client.ts': `console.log('second');` });
+  await test
+    .expect(async () => {
+      const res = await request.get(`http://127.0.0.1:${port}`);
+      test.expect(await res.text()).toContain('second');
+    })
+    .toPass({ timeout: 5000 });
+});
+
+test('waits for file changes after the program crashes', async ({
+  port,
+  startServer,
+  request,
+  writeFiles,
+}) => {
+  const stdout: string[] = [];
+
+  const server = (message: string) => `
+    const server = require('http').createServer((req, res) => {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('${message}');
+    });
+    server.listen(${port}, '127.0.0.1');
+  `;
+
+  const { write } = await startServer({
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+      nodeDev: { waitForChange: true },
+    },
+    files: [
+      { 'src/server.ts': server('Hello world') },
+      { 'src/server.ts': `throw new Error('crash');` },
+    ],
+    onStdout: output => {
+      stdout.push(output);
+    },
+  });
+
+  await write(1);
+  await test.expect
+    .poll(() => stdout.join(''))
+    .toContain('Waiting for file changes before restarting');
+
+  await writeFiles({ 'src/server.ts': server('Fixed') });
+  await test.expect
+    .poll(async () => {
+      const res = await request.get(`http://127.0.0.1:${port}`).catch(() => undefined);
+      return res?.text();
+    })
+    .toBe('Fixed');
+});
+
+test('loads env files and restarts when they change', async ({
+  port,
+  startServer,
+  request,
+  writeFiles,
+}) => {
+  await startServer({
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+    },
+    files: [
+      {
+        '.env': 'GREETING=Hello\nNAME=world',
+        '.env.local': 'NAME=local',
+        'src/server.ts': `
+          const server = require('http').createServer((req, res) => {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'text/plain');
+            res.end(process.env.GREETING + ' ' + process.env.NAME);
+          });
+          server.listen(${port}, '127.0.0.1');
+        `,
+      },
+    ],
+  });
+
+  const res1 = await request.get(`http://127.0.0.1:${port}`);
+  test.expect(await res1.text()).toBe('Hello local');
+
+  // Rebuilds that aren't triggered by source changes aren't reported by the watcher
+  await writeFiles({ '.env.local': 'NAME=changed' });
+
+  await test.expect
+    .poll(async () => {
+      const res = await request.get(`http://127.0.0.1:${port}`).catch(() => undefined);
+      return res?.text();
+    })
+    .toBe('Hello changed');
+});
+
+const STDIN_SERVER = (port: number) => `
+  let input = '';
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', data => {
+    input += data;
+  });
+
+  const server = require('http').createServer((req, res) => {
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/plain');
+    res.end('Received ' + JSON.stringify(input));
+  });
+  server.listen(${port}, '127.0.0.1');
+`;
+
+test('forwards stdin to the program by default', async ({ port, startServer, request }) => {
+  const { writeStdin } = await startServer({
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+    },
+    files: [{ 'src/server.ts': STDIN_SERVER(port) }],
+  });
+
+  // Keys that would trigger shortcuts are passed through unchanged
+  writeStdin('rq\n');
+
+  await test.expect
+    .poll(async () => (await request.get(`http://127.0.0.1:${port}`)).text())
+    .toBe('Received "rq\\n"');
+});
+
+// Shortcuts can only be enabled when stdin is a terminal
+test('keeps forwarding stdin with --shortcuts outside of a terminal', async ({
+  port,
+  startServer,
+  request,
+}) => {
+  const { writeStdin } = await startServer({
+    args: ['--shortcuts'],
+    config: {
+      platform: 'node',
+      entryPoints: { server: 'src/server.ts' },
+    },
+    files: [{ 'src/server.ts': STDIN_SERVER(port) }],
+  });
+
+  writeStdin('hello\n');
+
+  await test.expect
+    .poll(async () => (await request.get(`http://127.0.0.1:${port}`)).text())
+    .toBe('Received "hello\\n"');
 });
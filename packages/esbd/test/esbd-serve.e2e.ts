@@ -1,4 +1,7 @@
 import fsp from 'fs/promises';
+import getPort from 'get-port';
+import { createServer } from 'http';
+import { promisify } from 'util';
 
 import test from './config/serve-test';
 
@@ -331,3 +334,304 @@ test('page replaces stylesheets without reloading', async ({ page, port, startSe
 
   test.expect(loadCount).toBe(1);
 });
+
+test('proxies requests to another server', async ({ port, request, startServer }) => {
+  const backendPort = await getPort({ port: port + 1 });
+  const backend = createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({ url: req.url, host: req.headers.host, token: req.headers['x-token'] }),
+    );
+  });
+  await new Promise<void>(resolve => backend.listen(backendPort, '127.0.0.1', resolve));
+
+  try {
+    await startServer({
+      config: {
+        proxy: {
+          '/api': `http://127.0.0.1:${backendPort}`,
+          '/v2': {
+            target: `http://127.0.0.1:${backendPort}`,
+            changeOrigin: true,
+            headers: { 'x-token': 'secret' },
+            pathRewrite: { '^/v2': '/api/v2' },
+          },
+        },
+      },
+      files: [
+        {
+          'src/index.html': `
+            <!DOCTYPE html>
+            <html>
+              <head><script defer type="module" src="./entry.ts"></script></head>
+              <body></body>
+            </html>
+          `,
+          'src/entry.ts': `console.log('hello');`,
+        },
+      ],
+    });
+
+    const api = await request.get(`http://127.0.0.1:${port}/api/users?id=1`);
+    test.expect(await api.json()).toEqual({ url: '/api/users?id=1', host: `127.0.0.1:${port}` });
+
+    const v2 = await request.get(`http://127.0.0.1:${port}/v2/users`);
+    test.expect(await v2.json()).toEqual({
+      url: '/api/v2/users',
+      host: `127.0.0.1:${backendPort}`,
+      token: 'secret',
+    });
+
+    const exact = await request.get(`http://127.0.0.1:${port}/api?id=2`);
+    test.expect(await exact.json()).toEqual({ url: '/api?id=2', host: `127.0.0.1:${port}` });
+
+    // Only whole path segments match the prefix
+    const sibling = await request.get(`http://127.0.0.1:${port}/apiary`);
+    test.expect(await sibling.text()).toContain('<!DOCTYPE html>');
+
+    const index = await request.get(`http://127.0.0.1:${port}/other`);
+    test.expect(await index.text()).toContain('<!DOCTYPE html>');
+  } finally {
+    await promisify(backend.close.bind(backend))();
+  }
+});
+
+test('stops proxied requests when the client disconnects', async ({ port, startServer }) => {
+  const backendPort = await getPort({ port: port + 1 });
+  let onRequest!: () => void;
+  let onClose!: () => void;
+  const received = new Promise<void>(resolve => (onRequest = resolve));
+  const closed = new Promise<void>(resolve => (onClose = resolve));
+
+  // Never responds, like a long-polling endpoint
+  const backend = createServer((req, res) => {
+    res.on('close', onClose);
+    onRequest();
+  });
+  await new Promise<void>(resolve => backend.listen(backendPort, '127.0.0.1', resolve));
+
+  try {
+    await startServer({
+      config: {
+        proxy: { '/api': `http://127.0.0.1:${backendPort}` },
+      },
+      files: [
+        {
+          'src/index.html': `
+            <!DOCTYPE html>
+            <html>
+              <head><script defer type="module" src="./entry.ts"></script></head>
+              <body></body>
+            </html>
+          `,
+          'src/entry.ts': `console.log('hello');`,
+        },
+      ],
+    });
+
+    const controller = new AbortController();
+    const response = fetch(`http://127.0.0.1:${port}/api/poll`, {
+      signal: controller.signal,
+    }).catch(() => undefined);
+    await received;
+
+    controller.abort();
+    await response;
+    await closed;
+  } finally {
+    await promisify(backend.close.bind(backend))();
+  }
+});
+
+test('serves multiple configurations with their proxies', async ({
+  port,
+  request,
+  startServer,
+}) => {
+  const backendPort = await getPort({ port: port + 1 });
+  const backend = createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ url: req.url }));
+  });
+  await new Promise<void>(resolve => backend.listen(backendPort, '127.0.0.1', resolve));
+
+  try {
+    await startServer({
+      config: {
+        proxy: { '/api': `http://127.0.0.1:${backendPort}` },
+      },
+      configs: [
+        {
+          name: 'admin',
+          entryPoints: { 'admin.html': 'src/admin.html' },
+          outdir: './out-admin',
+          proxy: {
+            '/api': `http://127.0.0.1:${backendPort}`,
+            '/admin-api': {
+              target: `http://127.0.0.1:${backendPort}`,
+              pathRewrite: { '^/admin-api': '/internal' },
+            },
+          },
+        },
+      ],
+      files: [
+        {
+          'src/index.html': `
+            <!DOCTYPE html>
+            <html>
+              <head><script defer type="module" src="./entry.ts"></script></head>
+              <body>main</body>
+            </html>
+          `,
+          'src/entry.ts': `console.log('hello');`,
+          'src/admin.html': `
+            <!DOCTYPE html>
+            <html>
+              <head><script defer type="module" src="./admin.ts"></script></head>
+              <body>admin</body>
+            </html>
+          `,
+          'src/admin.ts': `console.log('admin');`,
+        },
+      ],
+    });
+
+    const main = await request.get(`http://127.0.0.1:${port}/index.html`);
+    test.expect(await main.text()).toContain('main');
+
+    const admin = await request.get(`http://127.0.0.1:${port}/admin.html`);
+    test.expect(await admin.text()).toContain('admin');
+
+    const api = await request.get(`http://127.0.0.1:${port}/api/users`);
+    test.expect(await api.json()).toEqual({ url: '/api/users' });
+
+    const adminApi = await request.get(`http://127.0.0.1:${port}/admin-api/users`);
+    test.expect(await adminApi.json()).toEqual({ url: '/internal/users' });
+  } finally {
+    await promisify(backend.close.bind(backend))();
+  }
+});
+
+test('serves content over HTTPS with a self-signed certificate', async ({
+  absWorkingDir,
+  port,
+  request,
+  startServer,
+}) => {
+  await startServer({
+    https: true,
+    livereload: true,
+    files: [
+      {
+        'src/index.html': `
+          <!DOCTYPE html>
+          <html>
+            <head><script defer type="module" src="./entry.ts"></script></head>
+            <body></body>
+          </html>
+        `,
+        'src/entry.ts': `console.log('hello');`,
+      },
+    ],
+  });
+
+  const index = await request.get(`https://127.0.0.1:${port}/`, { ignoreHTTPSErrors: true });
+  test.expect(index.ok()).toBe(true);
+  test
+    .expect(await index.text())
+    .toContain(`window.__ESBUILD_LR_PLUGIN__ = '//127.0.0.1:${port}/'`);
+
+  const cert = await fsp.readFile(
+    `${absWorkingDir}/node_modules/.cache/esbd/127.0.0.1-cert.pem`,
+    'utf-8',
+  );
+  test.expect(cert).toContain('BEGIN CERTIFICATE');
+});
+
+test('rebuilds when the HTML template changes', async ({ port, request, startServer }) => {
+  const { write } = await startServer({
+    files: [
+      {
+        'src/index.html': `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <title>Initial</title>
+              <script defer type="module" src="./entry.ts"></script>
+            </head>
+            <body></body>
+          </html>
+        `,
+        'src/entry.ts': `console.log('entry');`,
+        'src/other.ts': `console.log('other');`,
+      },
+      {
+        'src/index.html': `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <title>Updated</title>
+              <script defer type="module" src="./entry.ts"></script>
+              <script defer type="module" src="./other.ts"></script>
+            </head>
+            <body></body>
+          </html>
+        `,
+      },
+    ],
+  });
+
+  let index = await request.get(`http://127.0.0.1:${port}/`);
+  test.expect(await index.text()).toContain('<title>Initial</title>');
+
+  await write(1);
+
+  index = await request.get(`http://127.0.0.1:${port}/`);
+  const html = await index.text();
+  test.expect(html).toContain('<title>Updated</title>');
+  test.expect(html).toContain('src="other.js"');
+
+  const other = await request.get(`http://127.0.0.1:${port}/other.js`);
+  test.expect(await other.text()).toContain('other');
+});
+
+test('serves precompressed files to clients that accept them', async ({
+  port,
+  request,
+  startServer,
+}) => {
+  await startServer({
+    config: { compress: { threshold: 0 } },
+    files: [
+      {
+        'src/index.html': `
+          <!DOCTYPE html>
+          <html>
+            <head><script defer type="module" src="./entry.ts"></script></head>
+            <body></body>
+          </html>
+        `,
+        'src/entry.ts': `console.log('hello');`,
+      },
+    ],
+  });
+
+  const brotli = await request.get(`http://127.0.0.1:${port}/entry.js`, {
+    headers: { 'Accept-Encoding': 'gzip, br' },
+  });
+  test.expect(brotli.headers()['content-encoding']).toBe('br');
+  test.expect(brotli.headers()['content-type']).toContain('javascript');
+  test.expect(await brotli.text()).toContain('hello');
+
+  const gzip = await request.get(`http://127.0.0.1:${port}/entry.js`, {
+    headers: { 'Accept-Encoding': 'gzip, br;q=0' },
+  });
+  test.expect(gzip.headers()['content-encoding']).toBe('gzip');
+  test.expect(await gzip.text()).toContain('hello');
+
+  const identity = await request.get(`http://127.0.0.1:${port}/entry.js`, {
+    headers: { 'Accept-Encoding': 'identity' },
+  });
+  test.expect(identity.headers()['content-encoding']).toBeUndefined();
+  test.expect(await identity.text()).toContain('hello');
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { formatInspections, inspectConfig } from '../lib/inspect-config';
+
+const TEST_ROOT = path.join(__dirname, '..', 'test-results', 'inspect');
+
+describe('inspectConfig', () => {
+  let absWorkingDir: string;
+
+  beforeAll(async () => {
+    absWorkingDir = path.join(TEST_ROOT, 'project');
+    await fs.promises.mkdir(path.join(absWorkingDir, 'src'), { recursive: true });
+    await fs.promises.writeFile(
+      path.join(absWorkingDir, 'index.html'),
+      `<!DOCTYPE html><html><head><link rel="icon" href="./favicon.ico"><script defer src="./src/app.ts"></script></head><body></body></html>`,
+    );
+    return async () => {
+      await fs.promises.rm(TEST_ROOT, { recursive: true });
+    };
+  });
+
+  it('reports the source of each option and the HTML entry points', async () => {
+    const inspection = await inspectConfig(
+      {
+        name: 'web',
+        absWorkingDir,
+        entryPoints: ['index.html', 'src/worker.ts'],
+        plugins: [{ name: 'my-plugin', setup() {} }],
+        target: 'es2020',
+      },
+      {
+        baseMode: 'production',
+        command: 'build',
+        defaultWorkingDir: __dirname,
+        mode: 'production',
+      },
+    );
+
+    expect(inspection.builds.map(build => build.kind)).toEqual(['html', 'source']);
+
+    const [htmlBuild] = inspection.builds;
+    expect(htmlBuild.options).toMatchObject({
+      absWorkingDir: { value: absWorkingDir, source: 'config' },
+      bundle: { value: true, source: 'esbd' },
+      entryPoints: { value: { app: 'src/app.ts' }, source: 'esbd' },
+      format: { value: 'esm', source: 'default' },
+      minify: { value: true, source: 'default' },
+      outdir: { value: path.join(absWorkingDir, 'dist'), source: 'default' },
+      target: { value: 'es2020', source: 'config' },
+    });
+    expect(htmlBuild.options.sourcemap).toBeUndefined();
+    expect(htmlBuild.plugins).toEqual([
+      { name: 'incremental-build', source: 'esbd' },
+      { name: 'my-plugin', source: 'config' },
+      { name: 'esbd-timing', source: 'esbd' },
+    ]);
+
+    expect(inspection.htmlEntries).toEqual([
+      {
+        template: 'index.html',
+        output: 'index.html',
+        entryPoints: { app: 'src/app.ts' },
+        assets: ['favicon.ico'],
+      },
+    ]);
+  });
+
+  it('uses the options of the node-dev program build', async () => {
+    const inspection = await inspectConfig(
+      { absWorkingDir, entryPoints: { server: 'src/server.ts' }, minify: false },
+      {
+        baseMode: 'production',
+        command: 'node-dev',
+        defaultWorkingDir: __dirname,
+        mode: 'production',
+      },
+    );
+
+    const [programBuild] = inspection.builds;
+    expect(programBuild.kind).toBe('program');
+    expect(programBuild.options).toMatchObject({
+      minify: { value: true, source: 'esbd' },
+      platform: { value: 'node', source: 'default' },
+      target: { value: `node${process.versions.node}`, source: 'default' },
+    });
+    expect(formatInspections([inspection], false)).toContain(`    platform       default  'node'`);
+  });
+});
@@ -0,0 +1,107 @@
+import type { Plugin } from 'esbuild';
+import { describe, expect, test } from 'vitest';
+
+import type { EsbdBaseConfig, EsbdConfig } from '../lib';
+import { applyConfigOverrides, mergeConfigs } from '../lib/merge-config';
+
+const plugin = (name: string, version = 1): Plugin => ({ name, setup: () => void version });
+
+describe('mergeConfigs', () => {
+  test('merges objects deeply and replaces other values', () => {
+    expect(
+      mergeConfigs(
+        {
+          define: { A: '1', B: '2' },
+          entryPoints: { app: 'src/app.ts', admin: 'src/admin.ts' },
+          nodeDev: { respawn: { maxRestarts: 5, window: 1000 } },
+          resolveExtensions: ['.ts', '.js'],
+          sourcemap: true,
+        },
+        {
+          define: { B: '3' },
+          entryPoints: { app: 'src/main.ts' },
+          nodeDev: { respawn: { maxRestarts: 1 } },
+          resolveExtensions: ['.tsx'],
+          sourcemap: undefined,
+        },
+      ),
+    ).toEqual({
+      define: { A: '1', B: '3' },
+      entryPoints: { app: 'src/main.ts' },
+      nodeDev: { respawn: { maxRestarts: 1, window: 1000 } },
+      resolveExtensions: ['.tsx'],
+      sourcemap: true,
+    });
+  });
+
+  test('concatenates plugins, copy, external and inject', () => {
+    const merged = mergeConfigs(
+      {
+        copy: [['public']],
+        external: ['react'],
+        inject: ['shim.js'],
+        plugins: [plugin('a'), plugin('b')],
+      },
+      {
+        copy: [['robots.txt']],
+        external: ['react-dom'],
+        inject: ['polyfill.js'],
+        plugins: [plugin('c'), plugin('a', 2)],
+      },
+    );
+
+    expect(merged.copy).toEqual([['public'], ['robots.txt']]);
+    expect(merged.external).toEqual(['react', 'react-dom']);
+    expect(merged.inject).toEqual(['shim.js', 'polyfill.js']);
+    expect(merged.plugins?.map(p => p.name)).toEqual(['a', 'b', 'c']);
+    expect(merged.plugins?.[0].setup).not.toBe(plugin('a').setup);
+  });
+});
+
+describe('applyConfigOverrides', () => {
+  const base: EsbdBaseConfig = {
+    define: { API_URL: '"https://example.com"' },
+    outdir: 'build',
+    modes: { production: { minify: true, sourcemap: false } },
+    commands: { serve: { define: { API_URL: '"/api"' } } },
+  };
+
+  test('applies bases, then modes, then commands', () => {
+    const configs: EsbdConfig[] = [
+      { name: 'app', extends: base, entryPoints: ['app.html'], minify: false },
+      {
+        name: 'admin',
+        extends: [base, { external: ['fs'] }],
+        entryPoints: ['admin.html'],
+        modes: { production: { outdir: 'build/admin' } },
+      },
+    ];
+
+    expect(applyConfigOverrides(configs, 'production', 'serve')).toEqual([
+      {
+        name: 'app',
+        define: { API_URL: '"/api"' },
+        entryPoints: ['app.html'],
+        minify: false,
+        outdir: 'build',
+        sourcemap: false,
+      },
+      {
+        name: 'admin',
+        define: { API_URL: '"/api"' },
+        entryPoints: ['admin.html'],
+        external: ['fs'],
+        minify: true,
+        outdir: 'build/admin',
+        sourcemap: false,
+      },
+    ]);
+    expect(applyConfigOverrides(configs[0], 'development', 'build')).toEqual({
+      name: 'app',
+      define: { API_URL: '"https://example.com"' },
+      entryPoints: ['app.html'],
+      minify: false,
+      outdir: 'build',
+    });
+  });
+});
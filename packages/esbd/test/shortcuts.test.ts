@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resolveConfig } from '../lib/config';
+import esbdBuildMulti from '../lib/esbd-build';
+import type { Logger } from '../lib/log';
+import { createLogger } from '../lib/log';
+import { enableShortcuts } from '../lib/shortcuts';
+
+const TEST_ROOT = path.join(__dirname, '..', 'test-results', 'shortcuts');
+
+describe('enableShortcuts', () => {
+  const stdin = process.stdin;
+  const { isTTY: stdinIsTTY, setRawMode } = stdin;
+  const stdoutIsTTY = process.stdout.isTTY;
+
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = { error: vi.fn(), info: vi.fn() } as unknown as Logger;
+    stdin.isTTY = true;
+    process.stdout.isTTY = true;
+    stdin.setRawMode = vi.fn(() => stdin);
+  });
+
+  afterEach(() => {
+    stdin.isTTY = stdinIsTTY;
+    process.stdout.isTTY = stdoutIsTTY;
+    stdin.setRawMode = setRawMode;
+    stdin.pause();
+  });
+
+  it('runs the shortcut for each key press', async () => {
+    const rebuild = vi.fn();
+    const disable = enableShortcuts(
+      [{ key: 'r', description: 'rebuild', action: rebuild }],
+      logger,
+    );
+
+    expect(disable).toBeDefined();
+    expect(stdin.setRawMode).toHaveBeenCalledWith(true);
+    expect(vi.mocked(logger.info).mock.calls[0][0]).toMatch(/r.*rebuild.*q.*quit/);
+
+    stdin.emit('data', 'r');
+    stdin.emit('data', 'x');
+    await vi.waitFor(() => expect(rebuild).toHaveBeenCalledTimes(1));
+
+    disable!();
+    expect(stdin.setRawMode).toHaveBeenLastCalledWith(false);
+    stdin.emit('data', 'r');
+    expect(rebuild).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs errors thrown by shortcuts', async () => {
+    const disable = enableShortcuts(
+      [
+        {
+          key: 'R',
+          description: 'restart',
+          action: () => Promise.reject(new Error('Restart failed')),
+        },
+      ],
+      logger,
+    );
+
+    stdin.emit('data', 'R');
+    await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith('Restart failed'));
+    disable!();
+  });
+
+  it('is disabled when watched builds are disposed', async () => {
+    await fs.promises.mkdir(TEST_ROOT, { recursive: true });
+    const absWorkingDir = await fs.promises.mkdtemp(path.join(TEST_ROOT, 'test-'));
+    await fs.promises.writeFile(path.join(absWorkingDir, 'entry.ts'), `console.log('hi');`);
+
+    try {
+      const config = resolveConfig(
+        { entryPoints: { entry: 'entry.ts' }, outdir: 'out', sourcemap: false },
+        'silent',
+        absWorkingDir,
+        'development',
+      );
+      const contexts = await esbdBuildMulti([config], {
+        logger: createLogger('silent'),
+        mode: 'development',
+        shortcuts: true,
+        watch: true,
+      });
+      expect(stdin.setRawMode).toHaveBeenLastCalledWith(true);
+
+      await Promise.all(contexts.map(context => context.dispose()));
+      expect(stdin.setRawMode).toHaveBeenLastCalledWith(false);
+      expect(stdin.listenerCount('data')).toBe(0);
+    } finally {
+      await fs.promises.rm(TEST_ROOT, { recursive: true });
+    }
+  });
+
+  it('is not enabled outside of a terminal', () => {
+    stdin.isTTY = false;
+    const action = vi.fn();
+
+    expect(enableShortcuts([{ key: 'r', description: 'rebuild', action }], logger)).toBeUndefined();
+    expect(stdin.setRawMode).not.toHaveBeenCalled();
+    expect(logger.info).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,287 @@
+import execa from 'execa';
+import path from 'path';
+import { describe, expect, test } from 'vitest';
+
+import type { EsbdConfig } from '../lib';
+import {
+  findClosest,
+  formatConfigProblems,
+  validateBuildModes,
+  validateConfigResult,
+  validateServeConfigs,
+} from '../lib/validate-config';
+
+describe('validateConfigResult', () => {
+  test('valid configurations', () => {
+    expect(
+      validateConfigResult({
+        entryPoints: { app: 'src/app.ts' },
+        outdir: 'build',
+        compress: { formats: ['gzip'], threshold: { '.js': 512 } },
+        nodeDev: { respawn: { maxRestarts: 5 } },
+        proxy: { '/api': 'http://localhost:3000', '/ws': { target: 'http://localhost:3001' } },
+      }),
+    ).toEqual([]);
+    expect(
+      validateConfigResult([
+        { name: 'web', entryPoints: ['index.html'] },
+        { name: 'server', entryPoints: ['src/server.ts'], platform: 'node' },
+      ]),
+    ).toEqual([]);
+  });
+
+  test('reports every problem with its path', () => {
+    const problems = validateConfigResult([
+      { name: 'web', entryPoints: ['index.html'], outDir: 'build', write: true },
+      {
+        entryPoints: ['src/server.ts'],
+        platform: 'nodejs',
+        nodeDev: { respawn: { maxRestarts: '3' } },
+        proxy: { '/api': { changeOrigin: true } },
+      },
+      { name: 'web', minify: 'yes' },
+    ]);
+
+    expect(problems).toEqual([
+      {
+        path: 'config[0].outDir',
+        message: 'is not a known option',
+        suggestion: 'Did you mean "outdir"?',
+        severity: 'warning',
+      },
+      { path: 'config[0].write', message: 'is not supported', suggestion: expect.any(String) },
+      {
+        path: 'config[1].platform',
+        message: 'expected one of "browser", "node", "neutral" but received "nodejs"',
+        suggestion: 'Did you mean "node"?',
+      },
+      {
+        path: 'config[1].nodeDev.respawn.maxRestarts',
+        message: 'expected a number but received "3"',
+      },
+      { path: 'config[1].proxy["/api"].target', message: 'is required' },
+      {
+        path: 'config[1].name',
+        message: 'is required for configurations in an array',
+        suggestion: expect.any(String),
+      },
+      { path: 'config[2].entryPoints', message: 'is required' },
+      { path: 'config[2].minify', message: 'expected a boolean but received "yes"' },
+      {
+        path: 'config[2].name',
+        message: '"web" is already used by config[0]',
+        suggestion: 'Give each configuration a unique name',
+      },
+    ]);
+  });
+
+  test('accepts options that esbd does not check in detail', () => {
+    expect(
+      validateConfigResult({
+        entryPoints: ['index.html'],
+        bundle: true,
+        plugins: [{ name: 'my-plugin', setup() {}, options: { verbose: true } }],
+      }),
+    ).toEqual([]);
+    expect(
+      validateConfigResult({
+        entryPoints: ['index.html'],
+        bundle: false,
+        futureOption: true,
+        plugins: [{ name: 'my-plugin' }],
+      }),
+    ).toEqual([
+      {
+        path: 'config.bundle',
+        message: 'is ignored',
+        suggestion: expect.any(String),
+        severity: 'warning',
+      },
+      { path: 'config.futureOption', message: 'is not a known option', severity: 'warning' },
+      {
+        path: 'config.plugins[0].setup',
+        message: 'expected a function but received undefined',
+      },
+    ]);
+  });
+
+  test('accepts the bundle configuration of esbd', async () => {
+    const { exitCode, stderr } = await execa('node', ['bundle.js', 'check-config'], {
+      cwd: path.join(__dirname, '..'),
+      reject: false,
+    });
+    expect(stderr).toBe('Configuration is valid for "build" in development mode');
+    expect(exitCode).toBe(0);
+  });
+
+  test('validates proxy targets', () => {
+    expect(
+      validateConfigResult({
+        entryPoints: ['index.html'],
+        proxy: {
+          '/api': 'localhost:3000',
+          '/ws': { target: 'ws://localhost:3001', ws: true },
+          '/v2': { target: 'https://example.com/v2' },
+        },
+      }),
+    ).toEqual([
+      {
+        path: 'config.proxy["/api"]',
+        message: 'expected an http or https URL but received "localhost:3000"',
+        suggestion: expect.any(String),
+      },
+      {
+        path: 'config.proxy["/ws"].target',
+        message: 'expected an http or https URL but received "ws://localhost:3001"',
+        suggestion: expect.any(String),
+      },
+    ]);
+  });
+
+  test('validates extends, modes and commands', () => {
+    expect(
+      validateConfigResult({
+        extends: [{ outdir: 'build', modes: { production: { minify: true } } }],
+        modes: { prodution: { sourcemap: false }, development: { name: 'dev' } },
+        commands: { serve: { define: { DEBUG: true } } },
+      }),
+    ).toEqual([
+      {
+        path: 'config.modes.development.name',
+        message: 'is not a known option',
+        severity: 'warning',
+      },
+      {
+        path: 'config.commands.serve.define.DEBUG',
+        message: 'expected a string but received true',
+      },
+      {
+        path: 'config.modes.prodution',
+        message: 'is not a known build mode',
+        suggestion: 'Did you mean "production"?',
+      },
+    ]);
+  });
+
+  test('accepts custom build modes', () => {
+    const config = { entryPoints: ['index.html'], modes: { staging: { minify: true } } };
+    expect(validateConfigResult(config, ['development', 'production', 'staging'])).toEqual([]);
+    expect(validateConfigResult({ extends: config })).toEqual([
+      {
+        path: 'config.extends.modes.staging',
+        message: 'is not a known build mode',
+        suggestion: 'Declare "staging" in "buildModes" to use it as a custom mode',
+      },
+    ]);
+  });
+});
+
+describe('validateBuildModes', () => {
+  test('requires custom modes to map to a built-in mode', () => {
+    expect(validateBuildModes({ staging: 'production', test: 'development' })).toEqual([]);
+    expect(
+      validateBuildModes({ 'production': 'development', 'qa/1': 'production', 'test': 'dev' }),
+    ).toEqual([
+      {
+        path: 'buildModes.test',
+        message: 'expected one of "development", "production" but received "dev"',
+      },
+      { path: 'buildModes.production', message: 'is a built-in mode and cannot be redefined' },
+      {
+        path: 'buildModes["qa/1"]',
+        message: 'must only contain letters, numbers, "_" and "-"',
+        suggestion: expect.any(String),
+      },
+    ]);
+  });
+
+  test('rejects values that are not configurations', () => {
+    expect(validateConfigResult(undefined)).toEqual([
+      {
+        path: 'config',
+        message: 'expected an object or an array of objects but received undefined',
+      },
+    ]);
+    expect(validateConfigResult([])).toEqual([
+      { path: 'config', message: 'must contain at least one configuration' },
+    ]);
+  });
+});
+
+describe('validateServeConfigs', () => {
+  test('requires an HTML entry point', () => {
+    const configs: EsbdConfig[] = [
+      { name: 'web', entryPoints: [{ in: 'index.html', out: 'index' }] },
+      { name: 'worker', entryPoints: { worker: 'src/worker.ts' } },
+    ];
+    const configResult = configs.map(config => ({ ...config, name: config.name! }));
+
+    expect(validateServeConfigs(configResult, configResult)).toEqual([
+      {
+        path: 'config[1].entryPoints',
+        message: '"serve" requires at least one HTML entry point',
+        suggestion: expect.any(String),
+      },
+    ]);
+  });
+
+  test('reports conflicting proxies', () => {
+    const configs: EsbdConfig[] = [
+      { name: 'web', entryPoints: ['index.html'], proxy: { '/api': 'http://localhost:3000' } },
+      {
+        name: 'admin',
+        entryPoints: ['admin.html'],
+        proxy: { '/api': 'http://localhost:3000', '/auth': 'http://localhost:4000' },
+      },
+      {
+        name: 'docs',
+        entryPoints: ['docs.html'],
+        proxy: { '/api': { target: 'http://localhost:3001' }, '/auth': 'http://localhost:4000' },
+      },
+    ];
+    const configResult = configs.map(config => ({ ...config, name: config.name! }));
+
+    expect(validateServeConfigs(configResult, configResult)).toEqual([
+      {
+        path: 'config[2].proxy["/api"]',
+        message: 'conflicts with the proxy for "/api" in config[0]',
+        suggestion: expect.any(String),
+      },
+    ]);
+  });
+});
+
+describe('findClosest', () => {
+  test('suggests similar names', () => {
+    expect(findClosest('sourceMap', ['sourcemap', 'sourceRoot'])).toBe('sourcemap');
+    expect(findClosest('wbe', ['web', 'server'])).toBe('web');
+    expect(findClosest('unrelated', ['web', 'server'])).toBeUndefined();
+  });
+});
+
+test('formatConfigProblems', () => {
+  expect(
+    formatConfigProblems(
+      [
+        {
+          path: 'config.outDir',
+          message: 'is not a known option',
+          suggestion: 'Did you mean "outdir"?',
+        },
+        { path: 'config.minify', message: 'expected a boolean but received "yes"' },
+      ],
+      false,
+    ),
+  ).toMatchInlineSnapshot(`
+    "Invalid configuration (2 problems):
+      config.outDir: is not a known option
+        Did you mean "outdir"?
+      config.minify: expected a boolean but received "yes""
+  `);
+  expect(
+    formatConfigProblems(
+      [{ path: 'config.outDir', message: 'is not a known option', severity: 'warning' }],
+      false,
+    ),
+  ).toBe('Configuration has 1 warning:\n  config.outDir: is not a known option');
+});
@@ -1,5 +1,67 @@
 (() => {
   if (typeof window === 'undefined') return;
+  if (!window.__ESBUILD_LR_HOT__) {
+    const contexts = new Map();
+    const dependencies = new Map();
+
+    window.__ESBUILD_LR_HOT__ = {
+      createHotContext(id) {
+        const prev = contexts.get(id);
+        const ctx = {
+          data: prev ? prev.data : {},
+          acceptCallbacks: [],
+          disposeCallbacks: [],
+          accepted: false,
+          declined: false,
+        };
+        contexts.set(id, ctx);
+        return {
+          data: ctx.data,
+          accept(callback) {
+            ctx.accepted = true;
+            if (typeof callback === 'function') ctx.acceptCallbacks.push(callback);
+          },
+          dispose(callback) {
+            ctx.disposeCallbacks.push(callback);
+          },
+          decline() {
+            ctx.declined = true;
+          },
+          invalidate() {
+            location.reload();
+          },
+        };
+      },
+      register(id, mod) {
+        dependencies.set(id, mod);
+      },
+      dependency(id) {
+        if (!dependencies.has(id))
+          throw new Error(`Module "${id}" is not available for hot updates`);
+        return { __esModule: true, ...dependencies.get(id) };
+      },
+      async apply(updates) {
+        const targets = updates.map(update => [update, contexts.get(update.id)]);
+        if (
+          targets.some(([update, ctx]) => !update.code || !ctx || !ctx.accepted || ctx.declined)
+        ) {
+          return false;
+        }
+        for (const [update, ctx] of targets) {
+          for (const callback of ctx.disposeCallbacks) callback(ctx.data);
+          const url = URL.createObjectURL(new Blob([update.code], { type: 'text/javascript' }));
+          try {
+            const mod = await import(url);
+            dependencies.set(update.id, mod);
+            for (const callback of ctx.acceptCallbacks) callback(mod);
+          } finally {
+            URL.revokeObjectURL(url);
+          }
+        }
+        return true;
+      },
+    };
+  }
   if (window.__ESBUILD_LR_PLUGIN__) return;
   window.__ESBUILD_LR_PLUGIN__ = '{baseUrl}';
   const script = document.createElement('script');
@@ -1,8 +1,48 @@
+import type { HotModuleUpdate } from './hot';
 import type { ClientMessage } from './livereload-plugin';
 
 declare global {
   interface Window {
     __ESBUILD_LR_PLUGIN__: string;
+    __ESBUILD_LR_HOT__?: {
+      apply(updates: readonly HotModuleUpdate[]): Promise<boolean>;
+    };
+  }
+}
+
+function reload() {
+  console.log('esbuild-plugin-livereload: reloading...');
+  location.reload();
+}
+
+function reloadStylesheet(file: string): boolean {
+  for (const link of Array.from(document.getElementsByTagName('link'))) {
+    const url = new URL(link.href);
+
+    if (url.host === location.host && url.pathname === file) {
+      console.log(`esbuild-plugin-livereload: reloading CSS file ${file}...`);
+
+      const next = link.cloneNode() as HTMLLinkElement;
+      next.href = file + '?' + Math.random().toString(36).slice(2);
+      next.onload = () => link.remove();
+      link.parentNode!.insertBefore(next, link.nextSibling);
+      return true;
+    }
+  }
+  return false;
+}
+
+async function applyHotUpdates(updates: readonly HotModuleUpdate[] = []): Promise<boolean> {
+  if (!updates.length || !window.__ESBUILD_LR_HOT__) return false;
+  try {
+    const applied = await window.__ESBUILD_LR_HOT__.apply(updates);
+    if (applied) {
+      console.log(`esbuild-plugin-livereload: hot updated ${updates.map(u => u.id).join(', ')}`);
+    }
+    return applied;
+  } catch (e) {
+    console.error(e);
+    return false;
   }
 }
 
@@ -25,34 +65,27 @@ async function init() {
   const evt = new EventSource(window.__ESBUILD_LR_PLUGIN__ + 'esbuild');
   let removeOverlay: (() => void) | undefined;
 
-  evt.addEventListener('change', e => {
-    const msg: ClientMessage = JSON.parse(e?.data ?? '{}');
+  async function handleChange(msg: ClientMessage) {
     writeWarnings(msg);
 
-    const { forceReload = false, added, removed, updated } = msg;
+    const { forceReload = false, added, removed, updated, hotUpdates } = msg;
 
-    if (forceReload || added.length || removed.length || updated.length > 1) {
-      console.log('esbuild-plugin-livereload: reloading...');
-      location.reload();
+    if (forceReload || added.length || removed.length) {
+      reload();
       return;
     }
 
-    if (updated.length === 1) {
-      for (const link of Array.from(document.getElementsByTagName('link'))) {
-        const url = new URL(link.href);
-
-        if (url.host === location.host && url.pathname === msg.updated[0]) {
-          console.log(`esbuild-plugin-livereload: reloading CSS file ${msg.updated[0]}...`);
-
-          const next = link.cloneNode() as HTMLLinkElement;
-          next.href = msg.updated[0] + '?' + Math.random().toString(36).slice(2);
-          next.onload = () => link.remove();
-          link.parentNode!.insertBefore(next, link.nextSibling);
-          return;
-        }
-      }
-      console.log('esbuild-plugin-livereload: reloading...');
-      location.reload();
+    const updatedScripts = updated.filter(file => !file.endsWith('.css'));
+    const updatedStylesheets = updated.filter(file => file.endsWith('.css'));
+
+    if (updatedScripts.length && !(await applyHotUpdates(hotUpdates))) {
+      reload();
+      return;
+    }
+
+    if (!updatedStylesheets.every(reloadStylesheet)) {
+      reload();
+      return;
     }
 
     if (removeOverlay && !msg.errors?.length) {
@@ -66,6 +99,14 @@ async function init() {
         openFileURL: window.__ESBUILD_LR_PLUGIN__ + 'esbuild/open-editor',
       });
     }
+  }
+
+  evt.addEventListener('change', e => {
+    const msg: ClientMessage = JSON.parse(e?.data ?? '{}');
+    handleChange(msg).catch(err => {
+      console.error(err);
+      reload();
+    });
   });
 }
 
@@ -0,0 +1,225 @@
+import type { BuildOptions, Loader, OnLoadResult, Plugin, PluginBuild } from 'esbuild';
+import { promises as fsp } from 'fs';
+import path from 'path';
+
+/**
+ * Hot module replacement API available as `import.meta.hot` in modules
+ * that are bundled with the livereload plugin.
+ *
+ * To use it from TypeScript, add the following declaration to your project:
+ *
+ * ```ts
+ * interface ImportMeta {
+ *   hot?: import('@jgoz/esbuild-plugin-livereload').HotContext;
+ * }
+ * ```
+ */
+export interface HotContext {
+  /**
+   * Object that persists between instances of the same module. Use it to
+   * pass state from a disposed module to its replacement.
+   */
+  readonly data: Record<string, any>;
+
+  /**
+   * Marks this module as able to replace itself. When it changes, the new
+   * version will be executed in place and `callback` (if provided) will
+   * receive its exports.
+   */
+  accept(callback?: (newModule: Record<string, any>) => void): void;
+
+  /**
+   * Registers a callback that cleans up side effects of this module
+   * before it is replaced.
+   */
+  dispose(callback: (data: Record<string, any>) => void): void;
+
+  /**
+   * Forces a full page reload whenever this module changes, even if it
+   * has accepted updates.
+   */
+  decline(): void;
+
+  /**
+   * Reloads the page immediately.
+   */
+  invalidate(): void;
+}
+
+export interface HotModuleUpdate {
+  /**
+   * Path of the changed module, relative to `absWorkingDir`.
+   */
+  id: string;
+
+  /**
+   * Replacement code for the module as a self-contained ES module. Only present
+   * for modules that reference `import.meta.hot`.
+   */
+  code?: string;
+}
+
+export interface HotModules {
+  /**
+   * Rebuilds the given modules as standalone updates that can be applied in the browser.
+   */
+  buildUpdates(ids: readonly string[]): Promise<HotModuleUpdate[]>;
+}
+
+const HOT_REFERENCE = /\bimport\.meta\.hot\b/;
+const HOT_REFERENCES = new RegExp(HOT_REFERENCE.source, 'g');
+const IMPORT_SPECIFIER =
+  /^\s*(?:import|export)\s+(?!type\s)(?:[^'";]*?\s+from\s+)?(['"])([^'"\n]+)\1/gm;
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/;
+
+const DEPENDENCY_NAMESPACE = 'esbuild-lr-hot-dependency';
+
+// Module IDs match the input paths in esbuild's metafile
+function getModuleId(basedir: string, file: string): string {
+  return path.relative(basedir, file).split(path.sep).join('/');
+}
+
+function getLoader(options: BuildOptions, file: string): Loader {
+  const ext = path.extname(file);
+  const loader = options.loader?.[ext];
+  if (loader) return loader;
+  if (ext === '.ts' || ext === '.mts' || ext === '.cts') return 'ts';
+  if (ext === '.tsx' || ext === '.jsx') return ext.slice(1) as Loader;
+  return 'js';
+}
+
+/**
+ * Rewrites `import.meta.hot` references to a hot context for the module and
+ * registers the exports of every module it imports so that replacement code
+ * can reuse the instances that are already running in the page.
+ */
+async function transformHotModule(
+  build: PluginBuild,
+  basedir: string,
+  file: string,
+): Promise<OnLoadResult | undefined> {
+  const contents = await fsp.readFile(file, 'utf-8');
+  if (!HOT_REFERENCE.test(contents)) return undefined;
+
+  const id = getModuleId(basedir, file);
+  const resolveDir = path.dirname(file);
+
+  const specifiers = new Set(Array.from(contents.matchAll(IMPORT_SPECIFIER), m => m[2]));
+  const registrations = await Promise.all(
+    Array.from(specifiers, async (specifier, i) => {
+      const resolved = await build.resolve(specifier, {
+        importer: file,
+        kind: 'import-statement',
+        resolveDir,
+      });
+      if (resolved.errors.length || resolved.external || resolved.namespace !== 'file') return '';
+
+      const dependencyId = JSON.stringify(getModuleId(basedir, resolved.path));
+      return `import * as __lr_hot_dep_${i} from ${JSON.stringify(specifier)};
+if (__lr_hot) window.__ESBUILD_LR_HOT__.register(${dependencyId}, __lr_hot_dep_${i});`;
+    }),
+  );
+
+  // The hot context is declared on the first line so that line numbers in source maps are unaffected
+  const prelude = `var __lr_hot = typeof window !== 'undefined' && window.__ESBUILD_LR_HOT__ ? window.__ESBUILD_LR_HOT__.createHotContext(${JSON.stringify(id)}) : undefined;`;
+
+  return {
+    contents: `${prelude}${contents.replace(HOT_REFERENCES, '__lr_hot')}\n${registrations.join('\n')}`,
+    loader: getLoader(build.initialOptions, file),
+    resolveDir,
+  };
+}
+
+/**
+ * Enables `import.meta.hot` in the given build and returns an object that can
+ * produce replacement code for modules that use it.
+ *
+ * Replacement code is bundled as a self-contained ES module in which every import
+ * refers to the module instance that is already running in the page.
+ */
+export function setupHotModules(build: PluginBuild): HotModules {
+  const options = build.initialOptions;
+  const { absWorkingDir: basedir = process.cwd() } = options;
+
+  const hotModules = new Set<string>();
+
+  build.onLoad({ filter: SOURCE_FILE, namespace: 'file' }, async args => {
+    if (args.path.includes(`${path.sep}node_modules${path.sep}`)) return undefined;
+
+    const result = await transformHotModule(build, basedir, args.path);
+    if (result) hotModules.add(getModuleId(basedir, args.path));
+    return result;
+  });
+
+  function hotUpdatePlugin(entry: string): Plugin {
+    return {
+      name: 'livereload-hot-update',
+      setup(update) {
+        update.onResolve({ filter: /.*/ }, async args => {
+          if (args.kind === 'entry-point' || args.pluginData?.hotUpdate) return undefined;
+
+          const resolved = await update.resolve(args.path, {
+            importer: args.importer,
+            kind: args.kind,
+            pluginData: { hotUpdate: true },
+            resolveDir: args.resolveDir,
+          });
+          if (resolved.errors.length) return { errors: resolved.errors };
+          if (resolved.path === entry) return resolved;
+
+          return { path: getModuleId(basedir, resolved.path), namespace: DEPENDENCY_NAMESPACE };
+        });
+
+        update.onLoad({ filter: /.*/, namespace: DEPENDENCY_NAMESPACE }, args => ({
+          contents: `module.exports = window.__ESBUILD_LR_HOT__.dependency(${JSON.stringify(args.path)});`,
+          loader: 'js',
+        }));
+
+        update.onLoad({ filter: SOURCE_FILE, namespace: 'file' }, args =>
+          transformHotModule(update, basedir, args.path),
+        );
+      },
+    };
+  }
+
+  async function buildUpdate(id: string): Promise<HotModuleUpdate> {
+    if (!hotModules.has(id)) return { id };
+
+    const entry = path.resolve(basedir, id);
+    try {
+      const result = await build.esbuild.build({
+        absWorkingDir: basedir,
+        alias: options.alias,
+        bundle: true,
+        conditions: options.conditions,
+        define: options.define,
+        entryPoints: [entry],
+        format: 'esm',
+        jsx: options.jsx,
+        jsxDev: options.jsxDev,
+        jsxFactory: options.jsxFactory,
+        jsxFragment: options.jsxFragment,
+        jsxImportSource: options.jsxImportSource,
+        loader: options.loader,
+        logLevel: 'silent',
+        mainFields: options.mainFields,
+        platform: 'browser',
+        plugins: [hotUpdatePlugin(entry)],
+        resolveExtensions: options.resolveExtensions,
+        sourcemap: options.sourcemap ? 'inline' : false,
+        target: options.target,
+        tsconfig: options.tsconfig,
+        tsconfigRaw: options.tsconfigRaw,
+        write: false,
+      });
+      return { id, code: result.outputFiles[0].text };
+    } catch {
+      // Without replacement code, the client will fall back to a full reload
+      return { id };
+    }
+  }
+
+  return {
+    buildUpdates: ids => Promise.all(ids.map(buildUpdate)),
+  };
+}
@@ -1,2 +1,3 @@
+export type { HotContext, HotModuleUpdate } from './hot';
 export * from './livereload-plugin';
 export * from './server';
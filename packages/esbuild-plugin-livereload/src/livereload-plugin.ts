@@ -1,9 +1,12 @@
 import { createHash } from 'crypto';
-import type { BuildOptions, BuildResult, Message, Plugin } from 'esbuild';
+import type { BuildOptions, BuildResult, Message, Metafile, Plugin } from 'esbuild';
 import { createReadStream, promises as fsp } from 'fs';
 import type { ServerResponse } from 'http';
+import type { ServerOptions as HttpsServerOptions } from 'https';
 import path from 'path';
 
+import type { HotModules, HotModuleUpdate } from './hot';
+import { setupHotModules } from './hot';
 import { createLivereloadServer } from './server';
 
 export interface ClientMessage {
@@ -22,6 +25,12 @@ export interface ClientMessage {
    */
   updated: readonly string[];
 
+  /**
+   * Source modules that changed since the last build, along with replacement
+   * code for modules that can be updated in place.
+   */
+  hotUpdates?: readonly HotModuleUpdate[];
+
   /**
    * Reload the page even if a hot update is possible.
    */
@@ -49,6 +58,21 @@ export interface LivereloadPluginOptions {
    */
   fullReloadOnCssUpdates?: boolean;
 
+  /**
+   * Enable hot module replacement for modules that use the `import.meta.hot` API.
+   *
+   * Modules that accept updates via `import.meta.hot.accept()` will be replaced
+   * in place when they change. Changes to any other modules will trigger a
+   * full page reload.
+   *
+   * While enabled, every JS and TS source file is read to find modules that use
+   * `import.meta.hot`, and those modules are loaded by this plugin instead of any
+   * other plugins.
+   *
+   * @default false
+   */
+  hmr?: boolean;
+
   /**
    * Port that the livereload server will run on.
    *
@@ -78,6 +102,14 @@ export interface LivereloadPluginOptions {
    * Defaults to the value specified in `host`.
    */
   urlHostname?: string;
+
+  /**
+   * TLS options (e.g., `key` and `cert`) for the livereload server.
+   *
+   * If provided, the livereload server will use HTTPS, which is required
+   * when the page itself is served over HTTPS to avoid mixed-content errors.
+   */
+  https?: HttpsServerOptions;
 }
 
 /**
@@ -88,8 +120,8 @@ export interface LivereloadPluginOptions {
  * @returns - An esbuild plugin that enables livereload.
  */
 export function livereloadPlugin(options: LivereloadPluginOptions = {}): Plugin {
-  const { port = 53099, host = '127.0.0.1', urlHostname = host } = options;
-  const baseUrl = `http://${urlHostname}:${port}/`;
+  const { port = 53099, host = '127.0.0.1', urlHostname = host, https, hmr = false } = options;
+  const baseUrl = `${https ? 'https' : 'http'}://${urlHostname}:${port}/`;
 
   return {
     name: 'livereload-plugin',
@@ -103,6 +135,7 @@ export function livereloadPlugin(options: LivereloadPluginOptions = {}): Plugin
         host,
         port,
         urlHostname,
+        https,
         onSSE: res => clients.add(res),
       });
 
@@ -128,7 +161,12 @@ export function livereloadPlugin(options: LivereloadPluginOptions = {}): Plugin
         fullReloadOnCssUpdates = true;
       }
 
-      const messageBuilder = clientMessageBuilder(build.initialOptions, fullReloadOnCssUpdates);
+      const hotModules = hmr ? setupHotModules(build) : undefined;
+      const messageBuilder = clientMessageBuilder(
+        build.initialOptions,
+        fullReloadOnCssUpdates,
+        hotModules,
+      );
 
       build.onEnd(async result => {
         const message = await messageBuilder(result);
@@ -146,10 +184,17 @@ export function livereloadPlugin(options: LivereloadPluginOptions = {}): Plugin
  *
  * @param options - esbuild build options
  * @param fullReloadOnCssUpdates - If true, CSS updates will always trigger a full page reload
+ * @param hotModules - If provided, changed source modules will be included in the message
+ *                     along with replacement code for hot modules
  * @returns - A function that generates messages for connected clients
  */
-export function clientMessageBuilder(options: BuildOptions, fullReloadOnCssUpdates = false) {
+export function clientMessageBuilder(
+  options: BuildOptions,
+  fullReloadOnCssUpdates = false,
+  hotModules?: HotModules,
+) {
   const outputHashes = new Map<string, string>();
+  const inputHashes = new Map<string, string>();
   const { absWorkingDir: basedir = process.cwd(), outdir } = options;
 
   const absOutDir = outdir ? path.resolve(basedir, outdir) : undefined;
@@ -162,6 +207,36 @@ export function clientMessageBuilder(options: BuildOptions, fullReloadOnCssUpdat
     return file;
   }
 
+  // Source modules that contribute code to JS outputs, excluding dependencies
+  async function getChangedModules(metafile: Metafile): Promise<string[]> {
+    const inputs = new Set(
+      Object.entries(metafile.outputs)
+        .filter(([output]) => /\.[cm]?js$/.test(output))
+        .flatMap(([, { inputs }]) =>
+          Object.entries(inputs)
+            .filter(([, { bytesInOutput }]) => bytesInOutput > 0)
+            .map(([input]) => input),
+        )
+        .filter(input => !input.includes(':') && !input.includes('node_modules/')),
+    );
+
+    const changed: string[] = [];
+    for (const input of inputs) {
+      let hash: string;
+      try {
+        hash = await calculateHash(path.resolve(basedir, input));
+      } catch {
+        continue;
+      }
+
+      const prevHash = inputHashes.get(input);
+      if (prevHash && prevHash !== hash) changed.push(input);
+      inputHashes.set(input, hash);
+    }
+
+    return changed;
+  }
+
   return async function buildMessage(result: BuildResult): Promise<ClientMessage> {
     const added: string[] = [];
     const removed: string[] = [];
@@ -199,10 +274,17 @@ export function clientMessageBuilder(options: BuildOptions, fullReloadOnCssUpdat
       }
     }
 
+    let hotUpdates: HotModuleUpdate[] | undefined;
+    if (hotModules && result.metafile) {
+      const changedModules = await getChangedModules(result.metafile);
+      hotUpdates = await hotModules.buildUpdates(changedModules);
+    }
+
     return {
       added,
       removed,
       updated,
+      hotUpdates,
       warnings: result.warnings,
       errors: result.errors,
       forceReload: fullReloadOnCssUpdates,
@@ -234,6 +316,8 @@ export function notify(
   const added = values.flatMap(v => v.added);
   const removed = values.flatMap(v => v.removed);
   const updated = values.flatMap(v => v.updated);
+  // Hot updates can only be applied once, so they are not repeated for other sources
+  const hotUpdates = msg.hotUpdates ?? [];
   const errors = values.flatMap(v => v.errors ?? []);
   const warnings = values.flatMap(v => v.warnings ?? []);
   const forceReload = values.some(v => v.forceReload);
@@ -242,6 +326,7 @@ export function notify(
     added,
     removed,
     updated,
+    hotUpdates,
     warnings,
     errors,
     forceReload,
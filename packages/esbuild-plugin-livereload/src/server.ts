@@ -1,6 +1,8 @@
 import fs from 'fs';
 import type { IncomingMessage, Server, ServerResponse } from 'http';
 import { createServer } from 'http';
+import type { ServerOptions as HttpsServerOptions } from 'https';
+import { createServer as createHttpsServer } from 'https';
 import path from 'path';
 import { URL } from 'url';
 
@@ -11,6 +13,7 @@ export interface LivereloadServerOptions {
   port: number;
   host: string;
   urlHostname?: string;
+  https?: HttpsServerOptions;
   onSSE: (res: ServerResponse) => void;
 }
 
@@ -25,13 +28,14 @@ export type LivereloadRequestHandler = (req: IncomingMessage, res: ServerRespons
 export async function createLivereloadRequestHandler(
   options: LivereloadServerOptions,
 ): Promise<LivereloadRequestHandler> {
-  const { port, host, onSSE, basedir, urlHostname = host } = options;
+  const { port, host, onSSE, basedir, urlHostname = host, https } = options;
+  const protocol = https ? 'https' : 'http';
 
   const distFiles = await fs.promises.readdir(__dirname);
 
   return function handleLivereloadRequest(req, res): boolean {
     if (!req.url) return false;
-    const url = new URL(req.url, `http://${urlHostname}:${port}/`);
+    const url = new URL(req.url, `${protocol}://${urlHostname}:${port}/`);
 
     if (url.pathname === '/esbuild') {
       onSSE(
@@ -85,5 +89,6 @@ export async function createLivereloadRequestHandler(
  */
 export async function createLivereloadServer(options: LivereloadServerOptions): Promise<Server> {
   const handler = await createLivereloadRequestHandler(options);
-  return createServer(handler).listen(options.port, options.host);
+  const server = options.https ? createHttpsServer(options.https, handler) : createServer(handler);
+  return server.listen(options.port, options.host);
 }
@@ -0,0 +1,11 @@
+const el = document.createElement('p');
+el.id = 'hot';
+el.textContent = 'Hot One';
+document.body.appendChild(el);
+
+window.hotLoadCount = (window.hotLoadCount ?? 0) + 1;
+
+if (import.meta.hot) {
+  import.meta.hot.dispose(() => el.remove());
+  import.meta.hot.accept();
+}
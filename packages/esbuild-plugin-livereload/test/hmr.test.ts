@@ -0,0 +1,21 @@
+import test from './serve-test';
+
+// Hot module replacement is opt-in, so these tests use a separate server
+test.use({ hmr: true });
+
+test('accepting modules are replaced without reloading', async ({ page, port, writeFile }) => {
+  await page.goto(`http://127.0.0.1:${port}/`);
+
+  await page.waitForSelector('text=Hot One');
+  await page.evaluate(() => ((window as any).notReloaded = true));
+
+  await writeFile(['hot-2.js', 'hot.js']);
+
+  const msg = await page.waitForEvent('console');
+  test.expect(msg.text()).toBe('esbuild-plugin-livereload: hot updated hot.js');
+
+  await page.waitForSelector('text=Hot Two');
+  test.expect(await page.locator('#hot').count()).toBe(1);
+  test.expect(await page.evaluate(() => (window as any).hotLoadCount)).toBe(2);
+  test.expect(await page.evaluate(() => (window as any).notReloaded)).toBe(true);
+});
@@ -14,15 +14,24 @@ interface ServerTestFixtures {}
 
 interface ServerWorkerFixtures {
   absWorkingDir: string;
+  /** Enables hot module replacement, which is opt-in. */
+  hmr: boolean;
   writeFile(fixture: [input: string, output: string]): Promise<void>;
   port: number;
   server: ServeResult;
 }
 
 const test = base.extend<ServerTestFixtures, ServerWorkerFixtures>({
+  hmr: [false, { scope: 'worker', option: true }],
+
   absWorkingDir: [
     async ({}, use, workerInfo) => {
-      const dir = path.join(workerInfo.config.rootDir, 'test/fixture/out');
+      // Tests with different options run in separate workers
+      const dir = path.join(
+        workerInfo.config.rootDir,
+        'test/fixture/out',
+        String(workerInfo.workerIndex),
+      );
       await fsp.mkdir(dir, { recursive: true });
       await fsp.copyFile(
         path.join(__dirname, 'fixture', 'index.html'),
@@ -56,18 +65,19 @@ const test = base.extend<ServerTestFixtures, ServerWorkerFixtures>({
   ],
 
   server: [
-    async ({ port, absWorkingDir, writeFile }, use, workerInfo) => {
+    async ({ port, absWorkingDir, hmr, writeFile }, use, workerInfo) => {
       const lrPort = (await getPort()) + workerInfo.workerIndex;
 
       console.log(`Starting server (LR port: ${lrPort})...`);
 
       await writeFile(['1-initial.svelte', 'entry.svelte']);
       await writeFile(['style-1.css', 'style.css']);
+      await writeFile(['hot-1.js', 'hot.js']);
 
       const context = await createContext({
         absWorkingDir,
         bundle: true,
-        entryPoints: ['entry.svelte', 'style.css'],
+        entryPoints: ['entry.svelte', 'style.css', 'hot.js'],
         format: 'esm',
         metafile: true,
         outdir: 'js',
@@ -76,7 +86,7 @@ const test = base.extend<ServerTestFixtures, ServerWorkerFixtures>({
             compilerOptions: { css: true },
             preprocess: sveltePreprocess(),
           }),
-          livereloadPlugin({ port: lrPort }),
+          livereloadPlugin({ port: lrPort, hmr }),
         ],
         write: true,
       });
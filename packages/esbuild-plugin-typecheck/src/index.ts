@@ -1,3 +1,4 @@
 export * from './typecheck-plugin';
 export * from './typecheck-runner';
 export * from './types';
+export type { EsbuildDiagnosticMessage, WorkerMessage } from './typescript-worker';